@@ -2,9 +2,12 @@
 export default {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  // Only `*.test.ts` files; `src/cli/commands/test.ts` is the `schiba test` command
+  testMatch: ['<rootDir>/src/**/*.test.ts'],
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^@/(.*)$': '<rootDir>/src/$1',
   },
   transform: {
     '^.+\\.tsx?$': [
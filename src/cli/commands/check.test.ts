@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ColumnDefinition } from '../../core/types';
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'NO', default: null, constraints: null, ...extra };
+}
+
+function schema(columns: ColumnDefinition[]): string {
+  return JSON.stringify({ schemas: { public: { tables: { users: { columns } } } } });
+}
+
+const baselineSchema = schema([column('id', 'integer'), column('email', 'text')]);
+
+// The schema each saved connection returns when it is extracted
+const liveSchemas: Record<string, string> = {};
+let tags: string[] = [];
+
+jest.unstable_mockModule('../../config/manager', () => ({
+  configManager: {
+    get: jest.fn((tag: string) => ({ url: 'postgresql://localhost:5432/app', tag })),
+    list: jest.fn(() => tags.map((tag) => ({ tag }))),
+    detectDatabaseType: jest.fn(() => 'POSTGRES'),
+    getPreferences: jest.fn(() => ({})),
+  },
+}));
+
+const createAnalyzer = jest.fn(async (_dbType: string, config: { tag: string }) => ({
+  analyze: async (): Promise<{ schema: string }> => ({ schema: liveSchemas[config.tag] }),
+}));
+
+jest.unstable_mockModule('../../core/analyzers', () => ({ createAnalyzer }));
+
+const { CHECK_EXIT_CODES, checkSchema } = await import('./check');
+
+describe('checkSchema', () => {
+  let directory: string;
+  let baseline: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'schiba-check-'));
+    baseline = path.join(directory, 'prod.txt');
+    fs.writeFileSync(baseline, baselineSchema);
+    tags = ['prod', 'staging'];
+    liveSchemas.prod = baselineSchema;
+    liveSchemas.staging = baselineSchema;
+    createAnalyzer.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('exits with OK when the schema matches the baseline', async () => {
+    expect(await checkSchema('prod', baseline, {})).toBe(CHECK_EXIT_CODES.OK);
+  });
+
+  it('exits with DRIFT when the schema has changed', async () => {
+    liveSchemas.prod = schema([column('id', 'bigint'), column('email', 'text')]);
+
+    expect(await checkSchema('prod', baseline, {})).toBe(CHECK_EXIT_CODES.DRIFT);
+  });
+
+  it('only fails on the kinds of change in --fail-on', async () => {
+    liveSchemas.prod = schema([
+      column('id', 'integer'),
+      column('email', 'text', { nullable: 'YES' }),
+    ]);
+
+    expect(await checkSchema('prod', baseline, { failOn: ['table', 'column', 'type'] })).toBe(
+      CHECK_EXIT_CODES.OK
+    );
+    expect(await checkSchema('prod', baseline, { failOn: ['nullable'] })).toBe(
+      CHECK_EXIT_CODES.DRIFT
+    );
+  });
+
+  it('reads a baseline file even when a connection has the same tag', async () => {
+    tags.push(baseline);
+    liveSchemas[baseline] = schema([column('id', 'integer')]);
+
+    expect(await checkSchema('prod', baseline, {})).toBe(CHECK_EXIT_CODES.OK);
+    expect(createAnalyzer).toHaveBeenCalledTimes(1);
+  });
+
+  it('extracts a baseline that is a connection tag and not a file', async () => {
+    liveSchemas.staging = schema([column('id', 'integer')]);
+
+    expect(await checkSchema('prod', 'staging', {})).toBe(CHECK_EXIT_CODES.DRIFT);
+    expect(createAnalyzer).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the baseline is neither a file nor a connection', async () => {
+    await expect(checkSchema('prod', path.join(directory, 'missing.txt'), {})).rejects.toThrow(
+      'ENOENT'
+    );
+  });
+});
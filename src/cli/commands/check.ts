@@ -0,0 +1,109 @@
+import ora from 'ora';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import {
+  CHANGE_CATEGORIES,
+  ChangeCategory,
+  DiffFormat,
+  SchemaChange,
+  changeCategory,
+  describeChange,
+  diffSchemas,
+  renderDiff,
+} from '../../core/diff';
+import { configManager } from '../../config/manager';
+import { loadSchema, loadSnapshotFile } from './diff';
+
+export interface CheckOptions {
+  failOn?: ChangeCategory[];
+  format?: DiffFormat;
+  output?: string;
+  timeout?: number;
+}
+
+// Exit codes, so CI can tell drift apart from a check that could not run
+export const CHECK_EXIT_CODES = {
+  OK: 0,
+  DRIFT: 1,
+  ERROR: 2,
+};
+
+/**
+ * Compare a connection's live schema to a baseline snapshot. Returns the exit code: drift only
+ * fails the check when it falls in one of the `failOn` categories; other changes are warnings.
+ */
+export async function checkSchema(
+  tag: string,
+  baseline: string,
+  options: CheckOptions
+): Promise<number> {
+  const spinner = ora(`Checking '${tag}' against ${baseline}...`).start();
+
+  try {
+    // The checked side is always a live connection, never a file
+    const connectionTag = configManager.get(tag).tag;
+    // A baseline file is read even when a connection has the same tag
+    const expected = existsSync(baseline)
+      ? await loadSnapshotFile(baseline)
+      : await loadSchema(baseline, options.timeout);
+    const actual = await loadSchema(connectionTag, options.timeout);
+    spinner.stop();
+
+    const diff = diffSchemas(expected, actual, { source: baseline, target: tag });
+    const failOn = options.failOn || CHANGE_CATEGORIES;
+    const failures = diff.changes.filter((change) => failOn.includes(changeCategory(change)));
+    const warnings = diff.changes.filter((change) => !failures.includes(change));
+
+    if (options.output) {
+      await fs.writeFile(options.output, renderDiff(diff, options.format || 'text'), 'utf8');
+    }
+
+    if (options.format === 'json' && !options.output) {
+      process.stdout.write(renderDiff(diff, 'json'));
+    } else {
+      printReport(tag, failures, warnings);
+    }
+
+    return failures.length > 0 ? CHECK_EXIT_CODES.DRIFT : CHECK_EXIT_CODES.OK;
+  } catch (error) {
+    spinner.fail('Schema check could not run');
+    throw error;
+  }
+}
+
+function printReport(tag: string, failures: SchemaChange[], warnings: SchemaChange[]): void {
+  if (failures.length === 0 && warnings.length === 0) {
+    console.log(chalk.green(`✓ '${tag}' matches the baseline`));
+    return;
+  }
+
+  if (failures.length > 0) {
+    console.log(chalk.red(`✗ '${tag}' has drifted from the baseline (${failures.length}):`));
+    failures.forEach((change) => console.log(chalk.red(`  ${formatChange(change)}`)));
+  } else {
+    console.log(chalk.green(`✓ '${tag}' has no failing changes`));
+  }
+
+  if (warnings.length > 0) {
+    console.log(chalk.yellow(`\nIgnored changes (${warnings.length}):`));
+    warnings.forEach((change) => console.log(chalk.yellow(`  ${formatChange(change)}`)));
+  }
+}
+
+function formatChange(change: SchemaChange): string {
+  const details = describeChange(change);
+  return `${change.kind} ${change.object} ${change.name}${details ? `: ${details}` : ''}`;
+}
+
+export function showCheckHelp(): void {
+  console.log(chalk.yellow('\nCheck command usage:'));
+  console.log(chalk.cyan('  schiba check <tag> <baseline>   # Fail when a schema drifts'));
+
+  console.log(chalk.dim(`\nChange kinds for --fail-on: ${CHANGE_CATEGORIES.join(', ')}`));
+
+  console.log(chalk.dim('\nExamples:'));
+  console.log(chalk.dim('  schiba check prod schema/prod.txt'));
+  console.log(chalk.dim('  schiba check prod schema/prod.txt --fail-on table,column,type'));
+  console.log();
+}
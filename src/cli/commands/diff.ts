@@ -0,0 +1,113 @@
+import ora from 'ora';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import { createAnalyzer } from '../../core/analyzers';
+import { CONFIG } from '../../config/default';
+import { configManager } from '../../config/manager';
+import {
+  DiffFormat,
+  diffSchemas,
+  normalizeSchema,
+  readSnapshotFile,
+  renderDiff,
+  summarizeDiff,
+} from '../../core/diff';
+import type { NormalizedSnapshot, SchemaInput } from '../../core/diff';
+
+export interface DiffOptions {
+  format?: DiffFormat;
+  output?: string;
+  timeout?: number;
+}
+
+const LINE_COLORS: Record<string, (text: string) => string> = {
+  '+': chalk.green,
+  '-': chalk.red,
+  '~': chalk.yellow,
+};
+
+/**
+ * Load a schema to compare: a saved connection tag is extracted live, anything else is read as
+ * a snapshot file.
+ */
+export async function loadSchema(input: string, timeout?: number): Promise<NormalizedSnapshot> {
+  const isConnection = configManager.list().some(({ tag }) => tag === input);
+  if (!isConnection) {
+    return loadSnapshotFile(input);
+  }
+
+  const connectionConfig = configManager.get(input);
+  const dbType = configManager.detectDatabaseType(connectionConfig);
+  if (!dbType) {
+    throw new Error('Unsupported database type');
+  }
+
+  const preferences = configManager.getPreferences();
+  const analyzer = await createAnalyzer(
+    dbType,
+    connectionConfig,
+    timeout || preferences?.timeout || CONFIG.CONNECTION_TIMEOUT,
+    // Function bodies and sample documents are not compared
+    { includeFunctionBodies: false, redaction: { mode: 'omit' } }
+  );
+  const { schema } = await analyzer.analyze();
+
+  return normalizeSchema(JSON.parse(schema));
+}
+
+export async function loadSnapshotFile(filePath: string): Promise<NormalizedSnapshot> {
+  return normalizeSchema((await readSnapshotFile(filePath)) as SchemaInput);
+}
+
+export async function diffCommand(
+  source: string,
+  target: string,
+  options: DiffOptions
+): Promise<void> {
+  const spinner = ora(`Loading '${source}'...`).start();
+
+  try {
+    const before = await loadSchema(source, options.timeout);
+    spinner.text = `Loading '${target}'...`;
+    const after = await loadSchema(target, options.timeout);
+    spinner.stop();
+
+    const diff = diffSchemas(before, after, { source, target });
+    const format = options.format || 'text';
+    const output = renderDiff(diff, format);
+
+    if (options.output) {
+      await fs.writeFile(options.output, output, 'utf8');
+      console.log(chalk.green(`✓ ${summarizeDiff(diff)}. Written to ${options.output}`));
+      return;
+    }
+
+    if (format === 'text') {
+      output
+        .trimEnd()
+        .split('\n')
+        .forEach((line) => console.log((LINE_COLORS[line.charAt(0)] || chalk.reset)(line)));
+      return;
+    }
+
+    process.stdout.write(output);
+  } catch (error) {
+    spinner.fail('Error comparing schemas');
+    throw error;
+  }
+}
+
+export function showDiffHelp(): void {
+  console.log(chalk.yellow('\nDiff command usage:'));
+  console.log(
+    chalk.cyan('  schiba diff <source> <target>   # Compare two connections or snapshots')
+  );
+
+  console.log(chalk.dim('\nSources and targets can be connection tags or raw snapshot files.'));
+
+  console.log(chalk.dim('\nExamples:'));
+  console.log(chalk.dim('  schiba diff staging prod'));
+  console.log(chalk.dim('  schiba diff prod ./schiba-out.txt --format markdown'));
+  console.log(chalk.dim('  schiba diff old.txt new.txt --format json -o diff.json'));
+  console.log();
+}
@@ -0,0 +1,68 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AnalyzerOptions } from '../../core/types';
+
+let preferences: Record<string, unknown> = {};
+
+jest.unstable_mockModule('../../config/manager', () => ({
+  configManager: {
+    get: jest.fn(() => ({ url: 'postgresql://localhost:5432/app', tag: 'local' })),
+    detectDatabaseType: jest.fn(() => 'POSTGRES'),
+    getPreferences: jest.fn(() => preferences),
+  },
+}));
+
+const createAnalyzer = jest.fn(async (..._args: unknown[]) => ({
+  analyze: async (): Promise<{ schema: string; stats: unknown }> => ({
+    schema: '{"schemas":{}}',
+    stats: { totalSize: 14, objectCount: 0, details: {} },
+  }),
+}));
+
+jest.unstable_mockModule('../../core/analyzers', () => ({ createAnalyzer }));
+
+const { fetchSchema } = await import('./fetch');
+
+describe('fetchSchema', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'schiba-fetch-'));
+    createAnalyzer.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  // The analyzer options fetch passes for the given command-line options
+  async function analyzerOptions(functionBodies?: boolean): Promise<AnalyzerOptions> {
+    await fetchSchema('local', { directory, copy: false, functionBodies });
+    return createAnalyzer.mock.calls[0][3] as AnalyzerOptions;
+  }
+
+  it('includes function bodies by default', async () => {
+    preferences = {};
+
+    expect((await analyzerOptions()).includeFunctionBodies).toBe(true);
+  });
+
+  it('follows the functionBodies preference when no flag is given', async () => {
+    preferences = { functionBodies: false };
+
+    expect((await analyzerOptions()).includeFunctionBodies).toBe(false);
+  });
+
+  it('lets a flag override the preference', async () => {
+    preferences = { functionBodies: false };
+    expect((await analyzerOptions(true)).includeFunctionBodies).toBe(true);
+
+    preferences = { functionBodies: true };
+    createAnalyzer.mockClear();
+    expect((await analyzerOptions(false)).includeFunctionBodies).toBe(false);
+  });
+});
@@ -4,21 +4,29 @@ import path from 'path';
 import fs from 'fs/promises';
 import clipboardy from 'clipboardy';
 import { createAnalyzer } from '../../core/analyzers';
+import { sortSchemaOutput } from '../../core/analyzers/ordering';
 import { createFormatter } from '../../core/formatters';
 import { CONFIG } from '../../config/default';
 import { EMOJI_MAP } from '../../utils/constants';
 import { TokenCounterImpl } from '../../services/tokenizer/implementations';
 import { configManager } from '../../config/manager';
-import { SchemaStats } from '@/core/types';
+import { snapshotHistory } from '../../config/history';
+import { OutputFormat, RedactionMode, SchemaStats } from '@/core/types';
 import { formatDuration } from '../../utils/helpers';
 
 export interface FetchOptions {
   filename?: string;
   directory?: string;
   timeout?: number;
-  format?: 'raw' | 'markdown';
+  format?: OutputFormat;
   verbose?: boolean;
   copy?: boolean;
+  functionBodies?: boolean;
+  redact?: RedactionMode;
+  history?: boolean;
+  deterministic?: boolean;
+  diagramSchemas?: string[];
+  diagramTables?: string[];
 }
 
 export async function fetchSchema(tag: string | undefined, options: FetchOptions): Promise<void> {
@@ -39,13 +47,38 @@ export async function fetchSchema(tag: string | undefined, options: FetchOptions
     const timeout = options.timeout || preferences?.timeout || CONFIG.CONNECTION_TIMEOUT;
     const format = options.format || preferences?.format || 'raw';
     const shouldCopy = options.copy ?? preferences?.copy ?? true; // Default to true
+    const includeFunctionBodies = options.functionBodies ?? preferences?.functionBodies ?? true;
+    const redaction = {
+      mode: options.redact || preferences?.redaction || 'placeholder',
+      fields: preferences?.redactFields,
+      secret: preferences?.redactSecret,
+    };
+
+    const deterministic = options.deterministic ?? preferences?.deterministic ?? true;
+    // Created up front so a format the database cannot use fails before connecting
+    const formatter = createFormatter(format, dbType, {
+      deterministic,
+      diagram: { schemas: options.diagramSchemas, tables: options.diagramTables },
+    });
 
     spinner.text = `Analyzing schema for '${connectionConfig.tag}'...`;
-    const analyzer = await createAnalyzer(dbType, connectionConfig, timeout);
-    const { schema, stats } = await analyzer.analyze();
+    const analyzer = await createAnalyzer(dbType, connectionConfig, timeout, {
+      includeFunctionBodies,
+      redaction,
+    });
+    const analysis = await analyzer.analyze();
+    const { stats } = analysis;
+    const sortedSchema = sortSchemaOutput(analysis.schema);
+    const schema = deterministic ? sortedSchema : analysis.schema;
+
+    // History always stores the sorted schema, so a change in the order the database returns
+    // objects is not recorded as a new snapshot
+    const keepHistory = options.history ?? preferences?.history ?? false;
+    const history = keepHistory
+      ? snapshotHistory.save(connectionConfig.tag, dbType, sortedSchema, stats)
+      : undefined;
 
     spinner.text = 'Formatting output...';
-    const formatter = createFormatter(format);
     const formattedContent = formatter.format(schema, stats);
 
     spinner.text = 'Writing to file...';
@@ -73,6 +106,9 @@ export async function fetchSchema(tag: string | undefined, options: FetchOptions
       duration: durationInSeconds,
       copiedToClipboard: shouldCopy,
       connectionTag: connectionConfig.tag,
+      history: history
+        ? `${history.saved ? 'Saved snapshot' : 'Unchanged since snapshot'} ${history.snapshot.id}`
+        : undefined,
     });
   } catch (error) {
     spinner.fail('Error fetching schema');
@@ -81,14 +117,21 @@ export async function fetchSchema(tag: string | undefined, options: FetchOptions
   }
 }
 
-async function writeToFile(
+export async function writeToFile(
   content: string,
-  options: FetchOptions & { format: string }
+  options: Pick<FetchOptions, 'filename' | 'directory'> & { format: string }
 ): Promise<string> {
   const directory = options.directory || process.cwd();
+  const defaultFilenames: Record<string, string> = {
+    markdown: CONFIG.DEFAULT_OUTPUT.MARKDOWN,
+    dbml: CONFIG.DEFAULT_OUTPUT.DBML,
+    mermaid: CONFIG.DEFAULT_OUTPUT.MERMAID,
+    typescript: CONFIG.DEFAULT_OUTPUT.TYPESCRIPT,
+    zod: CONFIG.DEFAULT_OUTPUT.ZOD,
+    prisma: CONFIG.DEFAULT_OUTPUT.PRISMA,
+  };
   const filename =
-    options.filename ||
-    (options.format === 'markdown' ? CONFIG.DEFAULT_OUTPUT.MARKDOWN : CONFIG.DEFAULT_OUTPUT.RAW);
+    options.filename || defaultFilenames[options.format] || CONFIG.DEFAULT_OUTPUT.RAW;
 
   const fullPath = path.join(directory, filename);
   await fs.mkdir(directory, { recursive: true });
@@ -102,6 +145,7 @@ interface SummaryMetadata {
   duration: number;
   copiedToClipboard?: boolean;
   connectionTag: string;
+  history?: string;
 }
 function printSummary(
   dbType: string,
@@ -145,21 +189,40 @@ function printSummary(
     );
 
     // Line 3: Breakdown
-    console.log(
-      chalk.dim('3.  ') +
-        chalk.dim('Database: ') +
-        chalk.dim(`Tables: `) +
-        chalk.dim(`${stats.details.tables || 0}`) +
-        chalk.dim(` | `) +
-        chalk.dim(`Columns: `) +
-        chalk.dim(`${stats.details.columns || 0}`) +
-        chalk.dim(` | `) +
-        chalk.dim(`Indexes: `) +
-        chalk.dim(`${stats.details.indexes || 0}`) +
-        chalk.dim(` | `) +
-        chalk.dim(`Enums: `) +
-        chalk.dim(`${stats.details.enums || 0}`)
-    );
+    const breakdown =
+      dbType === 'MONGODB'
+        ? chalk.dim(`Collections: `) +
+          chalk.dim(`${stats.details.collections || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Fields: `) +
+          chalk.dim(`${stats.details.fields || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Indexes: `) +
+          chalk.dim(`${stats.details.indexes || 0}`)
+        : chalk.dim(`Tables: `) +
+          chalk.dim(`${stats.details.tables || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Columns: `) +
+          chalk.dim(`${stats.details.columns || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Indexes: `) +
+          chalk.dim(`${stats.details.indexes || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Views: `) +
+          chalk.dim(`${stats.details.views || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Enums: `) +
+          chalk.dim(`${stats.details.enums || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Relations: `) +
+          chalk.dim(`${stats.details.relations || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Functions: `) +
+          chalk.dim(`${stats.details.functions || 0}`) +
+          chalk.dim(` | `) +
+          chalk.dim(`Triggers: `) +
+          chalk.dim(`${stats.details.triggers || 0}`);
+    console.log(chalk.dim('3.  ') + chalk.dim('Database: ') + breakdown);
 
     // Line 4: Token usage
     console.log(
@@ -172,6 +235,11 @@ function printSummary(
         chalk.dim(`${tokenEstimates.gpt4.toLocaleString()} tokens`)
     );
 
+    // Line 5: Snapshot history
+    if (meta.history) {
+      console.log(chalk.dim('5.  ') + chalk.dim('History: ') + chalk.dim(meta.history));
+    }
+
     const successMessage = meta.copiedToClipboard ? 'Schema copied to clipboard!' : '';
 
     console.log(chalk.green(`\n${EMOJI_MAP.success} ${chalk.greenBright(successMessage)}\n`));
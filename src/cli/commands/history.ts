@@ -0,0 +1,93 @@
+import chalk from 'chalk';
+import { configManager } from '../../config/manager';
+import { snapshotHistory } from '../../config/history';
+import type { SchemaSnapshot } from '../../config/history';
+import { createFormatter } from '../../core/formatters';
+import type { OutputFormat } from '../../core/types';
+import { diffSchemas, normalizeSchema, summarizeDiff } from '../../core/diff';
+import { logger } from '../../utils/logger';
+import { writeToFile } from './fetch';
+
+export interface HistoryOptions {
+  export?: string;
+  format?: OutputFormat;
+  filename?: string;
+  directory?: string;
+}
+
+export async function showHistory(tag: string, options: HistoryOptions): Promise<void> {
+  try {
+    // Resolves the default connection and fails early for unknown tags
+    const connectionTag = configManager.get(tag).tag;
+
+    if (options.export) {
+      await exportSnapshot(snapshotHistory.get(connectionTag, options.export), options);
+      return;
+    }
+
+    listSnapshots(connectionTag, snapshotHistory.list(connectionTag));
+  } catch (error) {
+    logger.error(`Failed to read history: ${(error as Error).message}`);
+    throw error;
+  }
+}
+
+function listSnapshots(tag: string, snapshots: SchemaSnapshot[]): void {
+  if (snapshots.length === 0) {
+    console.log(chalk.yellow(`\nNo snapshots saved for '${tag}'.`));
+    console.log(
+      chalk.dim('Run ') +
+        chalk.cyan(`schiba fetch ${tag} --history`) +
+        chalk.dim(' or set the "history" preference to start keeping them.\n')
+    );
+    return;
+  }
+
+  console.log(chalk.blue(`\nSchema history for '${tag}':\n`));
+
+  snapshots.forEach((snapshot, index) => {
+    const previous = index > 0 ? snapshots[index - 1] : undefined;
+    const changes = previous
+      ? summarizeDiff(
+          diffSchemas(
+            normalizeSchema(JSON.parse(previous.schema)),
+            normalizeSchema(JSON.parse(snapshot.schema)),
+            { source: previous.id, target: snapshot.id }
+          )
+        )
+      : 'Initial snapshot';
+
+    console.log(
+      chalk.green(`  ${String(index + 1).padStart(3)}. `) +
+        chalk.white(snapshot.id) +
+        chalk.dim(`  ${new Date(snapshot.createdAt).toLocaleString()}  `) +
+        chalk.dim(changes)
+    );
+  });
+
+  console.log(
+    chalk.dim(`\nExport a snapshot with: schiba history ${tag} --export <number or id>\n`)
+  );
+}
+
+async function exportSnapshot(snapshot: SchemaSnapshot, options: HistoryOptions): Promise<void> {
+  const preferences = configManager.getPreferences();
+  const format = options.format || preferences?.format || 'raw';
+  const content = createFormatter(format, snapshot.dbType, {
+    deterministic: preferences?.deterministic ?? true,
+  }).format(snapshot.schema, snapshot.stats);
+  const outputPath = await writeToFile(content, { ...options, format });
+
+  logger.success(`Exported snapshot ${snapshot.id} to ${outputPath}`);
+}
+
+export function showHistoryHelp(): void {
+  console.log(chalk.yellow('\nHistory command usage:'));
+  console.log(chalk.cyan('  schiba history <tag>                  # List saved snapshots'));
+  console.log(chalk.cyan('  schiba history <tag> --export <ref>   # Write a snapshot to a file'));
+
+  console.log(chalk.dim('\nExamples:'));
+  console.log(chalk.dim('  schiba history prod'));
+  console.log(chalk.dim('  schiba history prod --export 3 --format markdown'));
+  console.log();
+}
@@ -2,6 +2,11 @@ import { configManager } from '../../config/manager';
 import { logger } from '../../utils/logger';
 import { Client } from '../../utils/pg-client';
 import { buildSSLConfig } from '../../utils/ssl';
+import { ConnectionPool, buildMssqlConfig } from '../../utils/mssql-client';
+import { getConnection, buildOracleConfig, OUT_FORMAT_OBJECT } from '../../utils/oracle-client';
+import { getDefaultSchemas } from '../../utils/helpers';
+import { MongoClient } from 'mongodb';
+import type { ConnectionConfig } from '../../core/types';
 import prompts from 'prompts';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -12,6 +17,94 @@ export interface SchemaListItem {
   hasPermission: boolean;
 }
 
+interface SchemaRow {
+  schema_name: string;
+  has_permission: boolean;
+}
+
+async function discoverPostgresSchemas(connectionConfig: ConnectionConfig): Promise<SchemaRow[]> {
+  // Use the PostgreSQL client directly
+  const client = new Client({
+    connectionString: connectionConfig.url,
+    ssl: buildSSLConfig(connectionConfig.sslMode),
+  });
+
+  await client.connect();
+
+  // Get all accessible schemas
+  const result = await client.query(`
+    SELECT 
+      schema_name,
+      has_schema_privilege(schema_name, 'USAGE') as has_permission
+    FROM information_schema.schemata 
+    WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast', 'pg_temp_1')
+    ORDER BY schema_name
+  `);
+
+  await client.end();
+  return result.rows;
+}
+
+async function discoverMssqlSchemas(connectionConfig: ConnectionConfig): Promise<SchemaRow[]> {
+  const client = new ConnectionPool(buildMssqlConfig(connectionConfig));
+
+  await client.connect();
+
+  try {
+    // Fixed database role schemas (db_owner, db_datareader, ...) have ids from 16384 upwards
+    const result = await client.request().query<SchemaRow>(`
+      SELECT
+        s.name AS schema_name,
+        CAST(HAS_PERMS_BY_NAME(s.name, 'SCHEMA', 'SELECT') AS bit) AS has_permission
+      FROM sys.schemas s
+      WHERE s.name NOT IN ('sys', 'INFORMATION_SCHEMA', 'guest') AND s.schema_id < 16384
+      ORDER BY s.name
+    `);
+    return result.recordset;
+  } finally {
+    await client.close();
+  }
+}
+
+async function discoverOracleSchemas(connectionConfig: ConnectionConfig): Promise<SchemaRow[]> {
+  const client = await getConnection(buildOracleConfig(connectionConfig));
+
+  try {
+    // Schemas are users; skip the accounts Oracle creates and maintains itself
+    const result = await client.execute<{ SCHEMA_NAME: string }>(
+      `SELECT username AS schema_name FROM all_users WHERE oracle_maintained = 'N' ORDER BY username`,
+      [],
+      { outFormat: OUT_FORMAT_OBJECT }
+    );
+    return (result.rows || []).map((row) => ({
+      schema_name: row.SCHEMA_NAME,
+      has_permission: true,
+    }));
+  } finally {
+    await client.close();
+  }
+}
+
+async function discoverMongoDatabases(connectionConfig: ConnectionConfig): Promise<SchemaRow[]> {
+  const client = new MongoClient(connectionConfig.url);
+
+  await client.connect();
+
+  try {
+    // MongoDB databases play the role of schemas; admin, local and config are internal
+    const { databases } = await client
+      .db()
+      .admin()
+      .listDatabases({ nameOnly: true, authorizedDatabases: true });
+    return databases
+      .filter(({ name }) => !['admin', 'local', 'config'].includes(name))
+      .map(({ name }) => ({ schema_name: name, has_permission: true }))
+      .sort((a, b) => a.schema_name.localeCompare(b.schema_name));
+  } finally {
+    await client.close();
+  }
+}
+
 export async function listAvailableSchemas(tag: string): Promise<SchemaListItem[]> {
   const spinner = ora('Discovering schemas...').start();
 
@@ -19,37 +112,35 @@ export async function listAvailableSchemas(tag: string): Promise<SchemaListItem[
     const connectionConfig = configManager.get(tag);
     const dbType = configManager.detectDatabaseType(connectionConfig);
 
-    if (dbType !== 'POSTGRES') {
-      throw new Error('Schema selection is currently only supported for PostgreSQL databases');
+    let rows: SchemaRow[];
+    switch (dbType) {
+      case 'POSTGRES':
+        rows = await discoverPostgresSchemas(connectionConfig);
+        break;
+      case 'MSSQL':
+        rows = await discoverMssqlSchemas(connectionConfig);
+        break;
+      case 'ORACLE':
+        rows = await discoverOracleSchemas(connectionConfig);
+        break;
+      case 'MONGODB':
+        rows = await discoverMongoDatabases(connectionConfig);
+        break;
+      default:
+        throw new Error(
+          'Schema selection is currently only supported for PostgreSQL, SQL Server, Oracle and MongoDB databases'
+        );
     }
 
-    // Use the PostgreSQL client directly
-    const client = new Client({
-      connectionString: connectionConfig.url,
-      ssl: buildSSLConfig(connectionConfig.sslMode),
-    });
-
-    await client.connect();
-
-    // Get all accessible schemas
-    const result = await client.query(`
-      SELECT 
-        schema_name,
-        has_schema_privilege(schema_name, 'USAGE') as has_permission
-      FROM information_schema.schemata 
-      WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast', 'pg_temp_1')
-      ORDER BY schema_name
-    `);
-
-    await client.end();
     spinner.stop();
 
-    const currentSchemas = connectionConfig.schemas || ['public'];
+    const currentSchemas =
+      connectionConfig.schemas || getDefaultSchemas(dbType, connectionConfig.url);
 
-    return result.rows.map((row: { schema_name: string; has_permission: boolean }) => ({
+    return rows.map((row) => ({
       name: row.schema_name,
       selected: currentSchemas.includes(row.schema_name),
-      hasPermission: row.has_permission,
+      hasPermission: !!row.has_permission,
     }));
   } catch (error) {
     spinner.fail('Failed to discover schemas');
@@ -133,7 +224,8 @@ ${chalk.dim('  a to toggle all, i to invert selection')}`,
 export async function listConnectionSchemas(tag: string): Promise<void> {
   try {
     const connectionConfig = configManager.get(tag);
-    const schemas = connectionConfig.schemas || ['public'];
+    const dbType = configManager.detectDatabaseType(connectionConfig);
+    const schemas = connectionConfig.schemas || getDefaultSchemas(dbType, connectionConfig.url);
 
     console.log(chalk.blue(`\nSchemas for connection '${tag}':\n`));
     schemas.forEach((schema, index) => {
@@ -11,6 +11,7 @@ export type UpdateProperty =
   | 'port'
   | 'database'
   | 'schema'
+  | 'sample-size'
   | 'tag';
 
 export async function updateConnection(
@@ -66,12 +67,14 @@ export function showUpdateHelp(tag?: string, property?: string): void {
     console.log(chalk.dim('  - port       : database port'));
     console.log(chalk.dim('  - database   : database name'));
     console.log(chalk.dim('  - schema     : database schema (PostgreSQL)'));
+    console.log(chalk.dim('  - sample-size: documents sampled per collection (MongoDB)'));
   }
 
   console.log(chalk.dim('\nExamples:'));
   console.log(chalk.dim('  schiba update local ssl-mode disable'));
   console.log(chalk.dim('  schiba update prod username newuser'));
   console.log(chalk.dim('  schiba update local port 5433'));
+  console.log(chalk.dim('  schiba update mongo sample-size 500'));
   console.log(
     chalk.dim('  schiba update alpha tag production    # Rename "alpha" to "production"')
   );
@@ -36,6 +36,11 @@ export class InteractivePrompts {
           value: 'mongodb',
           description: 'MongoDB database server',
         },
+        {
+          name: 'MySQL / MariaDB',
+          value: 'mysql',
+          description: 'MySQL or MariaDB database server',
+        },
       ],
     });
 
@@ -66,7 +71,12 @@ export class InteractivePrompts {
     });
 
     // Step 4: Port
-    const defaultPort = dbType === 'postgresql' ? '5432' : '27017';
+    const defaultPorts: Record<string, string> = {
+      postgresql: '5432',
+      mongodb: '27017',
+      mysql: '3306',
+    };
+    const defaultPort = defaultPorts[dbType];
     const port = await input({
       message: 'Database port:',
       default: defaultPort,
@@ -114,7 +124,7 @@ export class InteractivePrompts {
 
     // Step 9: SSL Mode
     const sslChoices =
-      dbType === 'postgresql'
+      dbType === 'postgresql' || dbType === 'mysql'
         ? [
             { name: 'Disable SSL (local development)', value: 'disable' },
             { name: 'Prefer SSL (recommended)', value: 'prefer' },
@@ -1,8 +1,10 @@
+import type { OutputFormat } from '../core/types';
+
 export interface FetchOptions {
   filename?: string;
   directory?: string;
   timeout?: number;
-  format?: 'raw' | 'markdown';
+  format?: OutputFormat;
   verbose?: boolean;
   copy?: boolean;
 }
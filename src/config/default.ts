@@ -1,26 +1,38 @@
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Read package.json and get version
-const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf8'));
+// Read package.json and get version. The bundle lives in dist/, the sources (as loaded by the
+// tests) one level deeper in src/config/
+const packageJsonPath = [
+  join(__dirname, '../package.json'),
+  join(__dirname, '../../package.json'),
+].find((path) => existsSync(path)) as string;
+const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
 
 export const CONFIG = {
   VERSION: packageJson.version,
   CONNECTION_TIMEOUT: 10000, // 10 seconds
+  MONGODB_SAMPLE_SIZE: 100, // documents sampled per collection
   SUPPORTED_DATABASES: {
     POSTGRES: ['postgresql://', 'postgres://'],
     MONGODB: ['mongodb://', 'mongodb+srv://'],
     MYSQL: ['mysql://', 'mariadb://'],
     MSSQL: ['mssql://', 'sqlserver://'],
     ORACLE: ['oracle://', 'oracledb://'],
+    SQLITE: ['sqlite://', 'sqlite:'],
   } as const,
   DEFAULT_OUTPUT: {
     RAW: 'schiba-out.txt',
     MARKDOWN: 'schiba-out.md',
+    DBML: 'schiba-out.dbml',
+    MERMAID: 'schiba-out.mmd',
+    TYPESCRIPT: 'schiba-out.ts',
+    ZOD: 'schiba-out.zod.ts',
+    PRISMA: 'schema.prisma',
   },
   // Add configuration defaults
   CONFIG_VERSION: '1.0.0',
@@ -0,0 +1,97 @@
+import { jest } from '@jest/globals';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SnapshotHistory } from './history';
+import type { SchemaStats } from '../core/types';
+
+const stats: SchemaStats = { totalSize: 10, objectCount: 1, details: { tables: 1 } };
+
+describe('SnapshotHistory', () => {
+  let directory: string;
+  let history: SnapshotHistory;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'schiba-history-'));
+    history = new SnapshotHistory(directory);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Snapshot ids come from the clock, so each save pins it
+  const saveAt = (
+    time: string,
+    tag: string,
+    schema: string
+  ): ReturnType<SnapshotHistory['save']> => {
+    jest.useFakeTimers({ now: new Date(time) });
+    return history.save(tag, 'POSTGRES', schema, stats);
+  };
+
+  it('stores snapshots and lists them oldest first', () => {
+    saveAt('2024-01-01T10:00:00.000Z', 'prod', '{"v":1}');
+    saveAt('2024-01-02T10:00:00.000Z', 'prod', '{"v":2}');
+
+    const snapshots = history.list('prod');
+    expect(snapshots.map(({ schema }) => schema)).toEqual(['{"v":1}', '{"v":2}']);
+    expect(snapshots[0]).toEqual({
+      id: '2024-01-01T10-00-00-000Z',
+      tag: 'prod',
+      createdAt: '2024-01-01T10:00:00.000Z',
+      dbType: 'POSTGRES',
+      schema: '{"v":1}',
+      stats,
+    });
+  });
+
+  it('skips a snapshot identical to the latest one', () => {
+    const first = saveAt('2024-01-01T10:00:00.000Z', 'prod', '{"v":1}');
+    const second = saveAt('2024-01-02T10:00:00.000Z', 'prod', '{"v":1}');
+
+    expect(first.saved).toBe(true);
+    expect(second).toEqual({ snapshot: first.snapshot, saved: false });
+    expect(history.list('prod')).toHaveLength(1);
+  });
+
+  it('finds snapshots by id or by position', () => {
+    saveAt('2024-01-01T10:00:00.000Z', 'prod', '{"v":1}');
+    saveAt('2024-01-02T10:00:00.000Z', 'prod', '{"v":2}');
+
+    expect(history.get('prod', '2').schema).toBe('{"v":2}');
+    expect(history.get('prod', '2024-01-01T10-00-00-000Z').schema).toBe('{"v":1}');
+    expect(() => history.get('prod', '3')).toThrow("Snapshot '3' not found for connection 'prod'");
+    expect(() => history.get('prod', '0')).toThrow('not found');
+  });
+
+  it('keeps tags with special characters in their own directory', () => {
+    saveAt('2024-01-01T10:00:00.000Z', 'team/prod', '{"v":1}');
+
+    expect(readdirSync(directory)).toEqual(['team%2Fprod']);
+    expect(history.list('team/prod')).toHaveLength(1);
+    expect(history.list('team')).toEqual([]);
+  });
+
+  it('moves snapshots with a renamed tag', () => {
+    saveAt('2024-01-01T10:00:00.000Z', 'prod', '{"v":1}');
+
+    history.rename('prod', 'production');
+
+    expect(history.list('prod')).toEqual([]);
+    expect(history.list('production')).toHaveLength(1);
+  });
+
+  it('deletes the snapshots of a removed tag', () => {
+    saveAt('2024-01-01T10:00:00.000Z', 'prod', '{"v":1}');
+    saveAt('2024-01-01T10:00:00.000Z', 'staging', '{"v":1}');
+
+    history.remove('prod');
+    history.remove('unknown');
+
+    expect(existsSync(join(directory, 'prod'))).toBe(false);
+    expect(history.list('prod')).toEqual([]);
+    expect(history.list('staging')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { configPaths } from './paths';
+import type { SchemaStats } from '../core/types';
+
+export interface SchemaSnapshot {
+  id: string;
+  tag: string;
+  createdAt: string;
+  dbType: string;
+  // Analyzer output, kept whole so the snapshot can be rendered again in any format
+  schema: string;
+  stats: SchemaStats;
+}
+
+/**
+ * Versioned schema snapshots, stored as one JSON file per fetch under `history/<tag>/` next to
+ * the config file.
+ */
+export class SnapshotHistory {
+  constructor(private directory: string = join(configPaths.getConfigDirectory(), 'history')) {}
+
+  /**
+   * Snapshots for a connection, oldest first.
+   */
+  public list(tag: string): SchemaSnapshot[] {
+    const dir = this.tagDirectory(tag);
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    return readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => this.read(join(dir, file)));
+  }
+
+  /**
+   * Find a snapshot by its id or by its 1-based position in `list`.
+   */
+  public get(tag: string, ref: string): SchemaSnapshot {
+    const snapshots = this.list(tag);
+    const position = /^\d+$/.test(ref) ? parseInt(ref, 10) : NaN;
+    const snapshot =
+      snapshots.find(({ id }) => id === ref) ||
+      (position > 0 ? snapshots[position - 1] : undefined);
+
+    if (!snapshot) {
+      throw new Error(`Snapshot '${ref}' not found for connection '${tag}'`);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Store a new snapshot unless the schema is identical to the latest one. Returns the stored
+   * snapshot, or the latest snapshot with `saved: false` when nothing changed.
+   */
+  public save(
+    tag: string,
+    dbType: string,
+    schema: string,
+    stats: SchemaStats
+  ): { snapshot: SchemaSnapshot; saved: boolean } {
+    const latest = this.list(tag).pop();
+    if (latest && latest.schema === schema) {
+      return { snapshot: latest, saved: false };
+    }
+
+    const createdAt = new Date().toISOString();
+    const snapshot: SchemaSnapshot = {
+      // Sortable and safe in file names on every platform
+      id: createdAt.replace(/[:.]/g, '-'),
+      tag,
+      createdAt,
+      dbType,
+      schema,
+      stats,
+    };
+
+    const dir = this.tagDirectory(tag);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    try {
+      writeFileSync(join(dir, `${snapshot.id}.json`), JSON.stringify(snapshot), 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to write schema snapshot: ${(error as Error).message}`);
+    }
+
+    return { snapshot, saved: true };
+  }
+
+  /**
+   * Move a connection's snapshots along with a renamed tag.
+   */
+  public rename(currentTag: string, newTag: string): void {
+    const from = this.tagDirectory(currentTag);
+    const to = this.tagDirectory(newTag);
+    if (existsSync(from) && !existsSync(to)) {
+      renameSync(from, to);
+    }
+  }
+
+  /**
+   * Delete a connection's snapshots along with the removed connection.
+   */
+  public remove(tag: string): void {
+    rmSync(this.tagDirectory(tag), { recursive: true, force: true });
+  }
+
+  private tagDirectory(tag: string): string {
+    return join(this.directory, encodeURIComponent(tag));
+  }
+
+  private read(filePath: string): SchemaSnapshot {
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read schema snapshot: ${(error as Error).message}`);
+    }
+  }
+}
+
+export const snapshotHistory = new SnapshotHistory();
@@ -1,6 +1,7 @@
 import { configPaths } from './paths';
 import { ConfigStorage } from './storage';
 import { ConfigValidator } from './validator';
+import { snapshotHistory } from './history';
 import type { ConfigFile, ConnectionConfig } from './types';
 import { CONFIG } from '../config/default';
 import { logger } from '../utils/logger';
@@ -111,6 +112,7 @@ export class ConfigManager {
     this.saveConfig();
 
     if (currentTag !== finalTag) {
+      snapshotHistory.rename(currentTag, finalTag);
       logger.success(
         `Renamed connection '${currentTag}' to '${finalTag}'${this.config.default === finalTag ? ' (default)' : ''}`
       );
@@ -230,6 +232,15 @@ export class ConfigManager {
         break;
       }
 
+      case 'sample-size': {
+        const sampleSize = parseInt(value, 10);
+        if (!Number.isInteger(sampleSize) || sampleSize < 1 || String(sampleSize) !== value) {
+          throw new Error('Sample size must be a positive whole number');
+        }
+        connection.sampleSize = sampleSize;
+        break;
+      }
+
       default:
         throw new Error(`Unknown property: ${property}`);
     }
@@ -265,6 +276,7 @@ export class ConfigManager {
     }
 
     this.saveConfig();
+    snapshotHistory.remove(tag);
     logger.success(`Removed connection '${tag}'`);
   }
 
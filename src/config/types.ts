@@ -1,8 +1,11 @@
+import type { OutputFormat } from '../core/types';
+
 export interface ConnectionConfig {
   url: string;
   sslMode: 'disable' | 'allow' | 'prefer' | 'require' | 'verify-ca' | 'verify-full';
   schemas?: string[];
   description?: string;
+  sampleSize?: number; // MongoDB documents sampled per collection
   created: string;
   updatedAt?: string;
   lastUsed?: string;
@@ -13,9 +16,15 @@ export interface ConfigFile {
   default?: string;
   connections: Record<string, ConnectionConfig>;
   preferences?: {
-    format?: 'raw' | 'markdown';
+    format?: OutputFormat;
     timeout?: number;
     copy?: boolean;
+    functionBodies?: boolean;
+    redaction?: 'placeholder' | 'fake' | 'hash' | 'omit';
+    redactFields?: string[];
+    redactSecret?: string;
+    history?: boolean;
+    deterministic?: boolean;
   };
 }
 
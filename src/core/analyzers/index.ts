@@ -1,17 +1,30 @@
 import { MongoAnalyzer } from './mongodb';
 import { PostgresAnalyzer } from './postgres';
-import type { DatabaseAnalyzer, ConnectionConfig } from '../types';
+import { MySQLAnalyzer } from './mysql';
+import { SQLiteAnalyzer } from './sqlite';
+import { MssqlAnalyzer } from './mssql';
+import { OracleAnalyzer } from './oracle';
+import type { DatabaseAnalyzer, ConnectionConfig, AnalyzerOptions } from '../types';
 
 export async function createAnalyzer(
   type: string,
   connectionConfig: ConnectionConfig,
-  timeout: number
+  timeout: number,
+  options: AnalyzerOptions = {}
 ): Promise<DatabaseAnalyzer> {
   switch (type.toUpperCase()) {
     case 'POSTGRES':
-      return new PostgresAnalyzer(connectionConfig, timeout);
+      return new PostgresAnalyzer(connectionConfig, timeout, options);
     case 'MONGODB':
-      return new MongoAnalyzer(connectionConfig, timeout);
+      return new MongoAnalyzer(connectionConfig, timeout, options);
+    case 'MYSQL':
+      return new MySQLAnalyzer(connectionConfig, timeout);
+    case 'SQLITE':
+      return new SQLiteAnalyzer(connectionConfig, timeout);
+    case 'MSSQL':
+      return new MssqlAnalyzer(connectionConfig, timeout);
+    case 'ORACLE':
+      return new OracleAnalyzer(connectionConfig, timeout);
     default:
       throw new Error(`Unsupported database type: ${type}`);
   }
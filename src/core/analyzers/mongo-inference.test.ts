@@ -0,0 +1,116 @@
+import { Decimal128, Long, ObjectId } from 'mongodb';
+import { fieldsFromJsonSchema, getBsonType, inferFields } from './mongo-inference';
+
+describe('getBsonType', () => {
+  it.each([
+    [null, 'null'],
+    [undefined, 'undefined'],
+    ['text', 'string'],
+    [42, 'int'],
+    [4.2, 'double'],
+    [10n, 'long'],
+    [true, 'bool'],
+    [new Date(0), 'date'],
+    [/^a/, 'regex'],
+    [[1], 'array'],
+    [{ a: 1 }, 'object'],
+    [new ObjectId('507f1f77bcf86cd799439011'), 'objectId'],
+    [Decimal128.fromString('1.5'), 'decimal'],
+    [Long.fromNumber(5), 'long'],
+  ])('reports %p as %s', (value, expected) => {
+    expect(getBsonType(value)).toBe(expected);
+  });
+});
+
+describe('inferFields', () => {
+  it('merges types and computes presence across documents', () => {
+    const result = inferFields([
+      { _id: 1, name: 'Ada', age: 36 },
+      { _id: 2, name: 'Grace', age: null },
+      { _id: 3, name: 'Linus' },
+      { _id: 4, name: 'Ken', age: 7.5 },
+    ]);
+
+    expect(result.fields).toEqual(['_id', 'name', 'age']);
+    expect(result.types.age).toEqual(['int', 'null', 'double']);
+    expect(result.presence).toEqual({ _id: 1, name: 1, age: 0.75 });
+  });
+
+  it('uses dotted paths for nested documents and [] for array elements', () => {
+    const result = inferFields([
+      {
+        address: { city: 'Oslo', geo: { lat: 59.9 } },
+        items: [
+          { sku: 'a', qty: 1 },
+          { sku: 'b', qty: 2 },
+        ],
+        tags: ['x', 'y'],
+      },
+    ]);
+
+    expect(result.types).toEqual({
+      address: ['object'],
+      'address.city': ['string'],
+      'address.geo': ['object'],
+      'address.geo.lat': ['double'],
+      items: ['array'],
+      'items[]': ['object'],
+      'items[].sku': ['string'],
+      'items[].qty': ['int'],
+      tags: ['array'],
+      'tags[]': ['string'],
+    });
+  });
+
+  it('counts a path once per document even when an array repeats it', () => {
+    const result = inferFields([{ items: [{ sku: 'a' }, { sku: 'b' }] }, { items: [] }]);
+
+    expect(result.presence['items[].sku']).toBe(0.5);
+    expect(result.presence.items).toBe(1);
+  });
+
+  it('stops descending into deeply nested documents', () => {
+    let doc: Record<string, unknown> = { leaf: true };
+    for (let i = 0; i < 30; i++) {
+      doc = { child: doc };
+    }
+
+    const { fields } = inferFields([doc]);
+
+    expect(fields).toHaveLength(21);
+    expect(fields.some((path) => path.endsWith('leaf'))).toBe(false);
+  });
+});
+
+describe('fieldsFromJsonSchema', () => {
+  it('reads nested properties, array items and required paths', () => {
+    const result = fieldsFromJsonSchema({
+      bsonType: 'object',
+      required: ['email'],
+      properties: {
+        email: { bsonType: 'string' },
+        age: { type: ['integer', 'null'] },
+        address: {
+          bsonType: 'object',
+          required: ['city'],
+          properties: { city: { type: 'string' } },
+        },
+        scores: { bsonType: 'array', items: { type: 'number' } },
+        pair: { items: [{ bsonType: 'string' }, { bsonType: 'int' }] },
+      },
+    });
+
+    expect(result.types).toEqual({
+      email: ['string'],
+      age: ['int', 'null'],
+      address: ['object'],
+      'address.city': ['string'],
+      scores: ['array'],
+      'scores[]': ['double'],
+      pair: ['array'],
+      'pair[]': ['string', 'int'],
+    });
+    expect(result.required).toEqual(['email', 'address.city']);
+    expect(result.fields).toEqual(Object.keys(result.types));
+  });
+});
@@ -0,0 +1,190 @@
+import type { Document } from 'mongodb';
+
+export interface InferredFields {
+  fields: string[];
+  types: Record<string, string[]>;
+  presence: Record<string, number>;
+}
+
+// Type names as accepted by MongoDB's $type operator, keyed by the js-bson class tag
+const BSON_TYPE_ALIASES: Record<string, string> = {
+  ObjectId: 'objectId',
+  ObjectID: 'objectId',
+  Decimal128: 'decimal',
+  Long: 'long',
+  Int32: 'int',
+  Double: 'double',
+  Binary: 'binData',
+  Timestamp: 'timestamp',
+  Code: 'javascript',
+  BSONRegExp: 'regex',
+  BSONSymbol: 'symbol',
+  MinKey: 'minKey',
+  MaxKey: 'maxKey',
+  DBRef: 'dbRef',
+};
+
+// Guards against pathological or self-referencing documents
+const MAX_DEPTH = 20;
+
+/**
+ * Return the BSON type name of a deserialized value. The driver returns int32 and double
+ * values as plain numbers, so whole numbers are reported as `int`.
+ */
+export function getBsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof RegExp) return 'regex';
+
+  switch (typeof value) {
+    case 'object': {
+      const tag = (value as { _bsontype?: string })._bsontype;
+      return tag ? BSON_TYPE_ALIASES[tag] || tag : 'object';
+    }
+    case 'number':
+      return Number.isInteger(value) ? 'int' : 'double';
+    case 'bigint':
+      return 'long';
+    case 'boolean':
+      return 'bool';
+    default:
+      return typeof value;
+  }
+}
+
+/**
+ * Infer every field path in a set of sampled documents. Nested documents use dotted paths
+ * (`address.city`) and array elements use `[]` (`items[].sku`). Types seen for the same path
+ * are merged, and presence is the share of documents that contain the path at least once.
+ */
+export function inferFields(documents: Document[]): InferredFields {
+  const types = new Map<string, Set<string>>();
+  const counts = new Map<string, number>();
+
+  documents.forEach((doc) => {
+    const seen = new Set<string>();
+    collectDocument(doc, '', 0, types, seen);
+    seen.forEach((path) => counts.set(path, (counts.get(path) || 0) + 1));
+  });
+
+  const fields = Array.from(types.keys());
+
+  return {
+    fields,
+    types: Object.fromEntries(fields.map((path) => [path, Array.from(types.get(path)!)])),
+    presence: Object.fromEntries(
+      fields.map((path) => [
+        path,
+        Math.round(((counts.get(path) || 0) / documents.length) * 100) / 100,
+      ])
+    ),
+  };
+}
+
+function collectDocument(
+  doc: Document,
+  prefix: string,
+  depth: number,
+  types: Map<string, Set<string>>,
+  seen: Set<string>
+): void {
+  Object.entries(doc).forEach(([key, value]) => {
+    collectValue(prefix ? `${prefix}.${key}` : key, value, depth, types, seen);
+  });
+}
+
+function collectValue(
+  path: string,
+  value: unknown,
+  depth: number,
+  types: Map<string, Set<string>>,
+  seen: Set<string>
+): void {
+  const type = getBsonType(value);
+  const pathTypes = types.get(path) || new Set<string>();
+  pathTypes.add(type);
+  types.set(path, pathTypes);
+  seen.add(path);
+
+  if (depth >= MAX_DEPTH) {
+    return;
+  }
+
+  if (type === 'object') {
+    collectDocument(value as Document, path, depth + 1, types, seen);
+  } else if (type === 'array') {
+    (value as unknown[]).forEach((item) => collectValue(`${path}[]`, item, depth + 1, types, seen));
+  }
+}
+
+interface JsonSchemaNode {
+  bsonType?: string | string[];
+  type?: string | string[];
+  properties?: Record<string, JsonSchemaNode>;
+  items?: JsonSchemaNode | JsonSchemaNode[];
+  required?: string[];
+}
+
+// $jsonSchema accepts JSON Schema `type` names as well as `bsonType`
+const JSON_TYPE_ALIASES: Record<string, string> = {
+  number: 'double',
+  integer: 'int',
+  boolean: 'bool',
+};
+
+/**
+ * Read field paths and types from a `$jsonSchema` validator, using the same path notation as
+ * `inferFields`. Paths listed in a `required` array are returned in `required`.
+ */
+export function fieldsFromJsonSchema(schema: JsonSchemaNode): {
+  fields: string[];
+  types: Record<string, string[]>;
+  required: string[];
+} {
+  const types: Record<string, string[]> = {};
+  const required: string[] = [];
+
+  const walk = (node: JsonSchemaNode, prefix: string, depth: number): void => {
+    if (depth >= MAX_DEPTH) {
+      return;
+    }
+
+    Object.entries(node.properties || {}).forEach(([name, property]) => {
+      const path = prefix ? `${prefix}.${name}` : name;
+      types[path] = schemaNodeTypes(property);
+      if (node.required?.includes(name)) {
+        required.push(path);
+      }
+      walkChildren(property, path, depth + 1);
+    });
+  };
+
+  const walkChildren = (node: JsonSchemaNode, path: string, depth: number): void => {
+    walk(node, path, depth);
+
+    // Tuple-style `items` arrays describe positions; treat them all as array elements
+    const items = Array.isArray(node.items) ? node.items : node.items ? [node.items] : [];
+    items.forEach((item) => {
+      const itemPath = `${path}[]`;
+      types[itemPath] = Array.from(new Set([...(types[itemPath] || []), ...schemaNodeTypes(item)]));
+      walkChildren(item, itemPath, depth + 1);
+    });
+  };
+
+  walk(schema, '', 0);
+
+  return { fields: Object.keys(types), types, required };
+}
+
+function schemaNodeTypes(node: JsonSchemaNode): string[] {
+  const declared = node.bsonType ?? node.type;
+  if (!declared) {
+    return node.properties ? ['object'] : node.items ? ['array'] : [];
+  }
+
+  return (Array.isArray(declared) ? declared : [declared]).map(
+    (type) => JSON_TYPE_ALIASES[type] || type
+  );
+}
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { redactDocument } from './mongo-redaction';
+
+const doc = {
+  _id: new ObjectId('507f1f77bcf86cd799439011'),
+  name: 'Ada Lovelace',
+  contact: 'ada@example.org',
+  password: 'hunter2',
+  age: 36,
+  active: true,
+  joined: new Date('2020-05-01T00:00:00.000Z'),
+  profile: { apiToken: 'abc', bio: 'Mathematician', tags: ['math', 'poetry'] },
+  deleted: null,
+};
+
+describe('redactDocument', () => {
+  it('replaces every value with its BSON type by default', () => {
+    expect(redactDocument(doc)).toEqual({
+      _id: '<objectId>',
+      name: '<string>',
+      contact: '<string>',
+      password: '<string>',
+      age: '<int>',
+      active: '<bool>',
+      joined: '<date>',
+      profile: { apiToken: '<string>', bio: '<string>', tags: ['<string>', '<string>'] },
+      deleted: null,
+    });
+  });
+
+  it('leaves the document out in omit mode', () => {
+    expect(redactDocument(doc, { mode: 'omit' })).toBeUndefined();
+  });
+
+  it('redacts sensitive and configured fields, including nested values', () => {
+    const redacted = redactDocument(doc, { mode: 'hash', fields: ['^bio$'] });
+
+    expect(redacted?.password).toBe('[REDACTED]');
+    expect(redacted?.profile.apiToken).toBe('[REDACTED]');
+    expect(redacted?.profile.bio).toBe('[REDACTED]');
+    expect(redacted?.name).not.toBe('[REDACTED]');
+  });
+
+  it('keeps fields whose names only contain a sensitive word', () => {
+    const redacted = redactDocument(
+      { userId: 'u1', keyboardLayout: 'dvorak', roleName: 'admin' },
+      { mode: 'hash' }
+    );
+
+    expect(Object.values(redacted || {})).not.toContain('[REDACTED]');
+  });
+
+  describe('hash mode', () => {
+    it('uses a keyed hash that plain SHA-256 of the value does not reproduce', () => {
+      const redacted = redactDocument(doc, { mode: 'hash' });
+      const unkeyed = createHash('sha256').update('Ada Lovelace').digest('hex');
+
+      expect(redacted?.name).toMatch(/^hmac:[0-9a-f]{16}$/);
+      expect(redacted?.name).not.toContain(unkeyed.slice(0, 16));
+    });
+
+    it('keeps hashes stable for a configured secret', () => {
+      const first = redactDocument(doc, { mode: 'hash', secret: 'team-secret' });
+      const second = redactDocument(doc, { mode: 'hash', secret: 'team-secret' });
+      const other = redactDocument(doc, { mode: 'hash', secret: 'other-secret' });
+
+      expect(first).toEqual(second);
+      expect(first?.name).not.toBe(other?.name);
+    });
+
+    it('gives equal values equal hashes within a run', () => {
+      const redacted = redactDocument({ a: 'same', b: 'same', c: 'different' }, { mode: 'hash' });
+
+      expect(redacted?.a).toBe(redacted?.b);
+      expect(redacted?.a).not.toBe(redacted?.c);
+    });
+  });
+
+  describe('fake mode', () => {
+    it('substitutes values of the same shape', () => {
+      const redacted = redactDocument(doc, { mode: 'fake', secret: 'team-secret' });
+
+      expect(redacted?.contact).toMatch(/^user_[0-9a-f]{6}@example\.com$/);
+      expect(typeof redacted?.age).toBe('number');
+      expect(redacted?.active).toBe(true);
+      expect(redacted?.joined).toBeInstanceOf(Date);
+      expect(redacted?._id).toMatch(/^[0-9a-f]{24}$/);
+      expect(redacted?._id).not.toBe('507f1f77bcf86cd799439011');
+      expect(redacted?.profile.tags).toHaveLength(2);
+    });
+
+    it('keeps phone number formatting', () => {
+      const redacted = redactDocument({ office: '+1 (555) 010-9999' }, { mode: 'fake' });
+
+      expect(redacted?.office).toMatch(/^\+\d \(\d{3}\) \d{3}-\d{4}$/);
+    });
+  });
+});
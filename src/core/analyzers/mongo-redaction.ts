@@ -0,0 +1,136 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { Document } from 'mongodb';
+import { isSecuritySensitive } from '../../utils/helpers';
+import type { RedactionMode, RedactionOptions } from '../types';
+import { getBsonType } from './mongo-inference';
+
+export const REDACTION_MODES: RedactionMode[] = ['placeholder', 'fake', 'hash', 'omit'];
+
+const REDACTED = '[REDACTED]';
+
+// Hashes and fakes are keyed so they cannot be reversed by hashing guessed values. Without a
+// configured secret the key changes on every run.
+const RUN_SECRET = randomBytes(32);
+
+const FAKE_WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit'];
+
+/**
+ * Replace the values in a sample document so it can be shared safely. `placeholder` swaps
+ * every value for its BSON type, `fake` and `hash` keep non-sensitive values recognisable and
+ * `omit` drops the document entirely. Fields whose names look sensitive are always redacted.
+ */
+export function redactDocument(
+  doc: Document,
+  options: RedactionOptions = {}
+): Document | undefined {
+  const mode = options.mode || 'placeholder';
+  if (mode === 'omit') {
+    return undefined;
+  }
+
+  return redactObject(
+    doc,
+    {
+      mode,
+      extraPatterns: (options.fields || []).map((source) => new RegExp(source, 'i')),
+      secret: options.secret || RUN_SECRET,
+    },
+    false
+  );
+}
+
+interface RedactionContext {
+  mode: RedactionMode;
+  extraPatterns: RegExp[];
+  secret: string | Buffer;
+}
+
+function redactObject(doc: Document, context: RedactionContext, sensitive: boolean): Document {
+  return Object.fromEntries(
+    Object.entries(doc).map(([key, value]) => [
+      key,
+      redactValue(
+        value,
+        context,
+        sensitive || (key !== '_id' && isSecuritySensitive(key, context.extraPatterns))
+      ),
+    ])
+  );
+}
+
+function redactValue(value: unknown, context: RedactionContext, sensitive: boolean): unknown {
+  const type = getBsonType(value);
+
+  if (type === 'object') {
+    return redactObject(value as Document, context, sensitive);
+  }
+
+  if (type === 'array') {
+    return (value as unknown[]).map((item) => redactValue(item, context, sensitive));
+  }
+
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (context.mode === 'placeholder') {
+    return `<${type}>`;
+  }
+
+  if (sensitive) {
+    return REDACTED;
+  }
+
+  const hash = digest(value, context.secret);
+  return context.mode === 'hash' ? `hmac:${hash.slice(0, 16)}` : fakeValue(type, value, hash);
+}
+
+function digest(value: unknown, secret: string | Buffer): string {
+  const serialized = value instanceof Date ? value.toISOString() : String(value);
+  return createHmac('sha256', secret).update(serialized).digest('hex');
+}
+
+// Fakes are derived from the keyed hash of the original, so equal values get equal fakes
+function fakeValue(type: string, value: unknown, hash: string): unknown {
+  const seed = parseInt(hash.slice(0, 8), 16);
+
+  switch (type) {
+    case 'string':
+      return fakeString(value as string, hash, seed);
+    case 'int':
+      return seed % 10 ** Math.min(String(Math.abs(value as number)).length, 9);
+    case 'double':
+      return Math.round((seed % 100000) / 10) / 100;
+    case 'bool':
+      return value;
+    case 'date':
+      // Somewhere within the ten years from 2015
+      return new Date(Date.UTC(2015, 0, 1) + (seed % 3650) * 86400000);
+    case 'objectId':
+      return hash.slice(0, 24);
+    default:
+      return `<${type}>`;
+  }
+}
+
+function fakeString(value: string, hash: string, seed: number): string {
+  if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) {
+    return `user_${hash.slice(0, 6)}@example.com`;
+  }
+
+  if (/^https?:\/\//i.test(value)) {
+    return `https://example.com/${hash.slice(0, 8)}`;
+  }
+
+  if (/^[+\d][\d\s().-]{6,}$/.test(value)) {
+    return value.replace(/\d/g, (_, index: number) =>
+      String(parseInt(hash[index % hash.length], 16) % 10)
+    );
+  }
+
+  const words: string[] = [];
+  for (let i = 0; words.join(' ').length < Math.min(value.length, 40); i++) {
+    words.push(FAKE_WORDS[(seed + i) % FAKE_WORDS.length]);
+  }
+  return words.join(' ').slice(0, Math.max(value.length, 1));
+}
@@ -0,0 +1,154 @@
+import { ObjectId } from 'mongodb';
+import {
+  MAX_REFERENCE_VALUES,
+  getPathValues,
+  lookupReferences,
+  matchCollectionByName,
+  objectIdKeyed,
+  sampleObjectIds,
+  scoreReference,
+} from './mongo-relationships';
+
+describe('matchCollectionByName', () => {
+  const collections = ['users', 'categories', 'boxes', 'address', 'Orders'];
+
+  it.each([
+    ['userId', 'users'],
+    ['user_id', 'users'],
+    ['userIds', 'users'],
+    ['users_ids', 'users'],
+    ['categoryId', 'categories'],
+    ['boxId', 'boxes'],
+    ['addressID', 'address'],
+    ['orderId', 'Orders'],
+    ['billing.userId', 'users'],
+    ['items[].orderId', 'Orders'],
+  ])('matches %s to %s', (field, expected) => {
+    expect(matchCollectionByName(field, collections)).toBe(expected);
+  });
+
+  it.each(['user', 'identity', 'productId', '_id'])('does not match %s', (field) => {
+    expect(matchCollectionByName(field, collections)).toBeUndefined();
+  });
+});
+
+describe('getPathValues', () => {
+  it('descends into nested documents and arrays', () => {
+    const doc = {
+      owner: { id: 1 },
+      items: [{ sku: 'a' }, { sku: 'b' }, { other: true }],
+      matrix: [
+        [1, 2],
+        [3, 4],
+      ],
+    };
+
+    expect(getPathValues(doc, 'owner.id')).toEqual([1]);
+    expect(getPathValues(doc, 'items[].sku')).toEqual(['a', 'b']);
+    expect(getPathValues(doc, 'matrix[][]')).toEqual([1, 2, 3, 4]);
+    expect(getPathValues(doc, 'missing.path')).toEqual([]);
+  });
+});
+
+describe('sampleObjectIds', () => {
+  it('collects distinct ObjectIds and ignores other values', () => {
+    const id = new ObjectId('507f1f77bcf86cd799439011');
+    const documents = [
+      { userId: id },
+      { userId: new ObjectId('507f1f77bcf86cd799439011') },
+      { userId: '507f1f77bcf86cd799439012' },
+      {},
+    ];
+
+    expect(sampleObjectIds(documents, 'userId').map(String)).toEqual([id.toHexString()]);
+  });
+
+  it('checks at most MAX_REFERENCE_VALUES values', () => {
+    const documents = Array.from({ length: MAX_REFERENCE_VALUES + 5 }, () => ({
+      ref: new ObjectId(),
+    }));
+
+    expect(sampleObjectIds(documents, 'ref')).toHaveLength(MAX_REFERENCE_VALUES);
+  });
+});
+
+describe('objectIdKeyed', () => {
+  it('returns collections whose _id values are ObjectIds', () => {
+    expect(
+      objectIdKeyed([
+        { collection: 'users', types: { _id: ['objectId'] } },
+        { collection: 'counters', types: { _id: ['string'] } },
+        { collection: 'events', types: { _id: ['objectId', 'int'] } },
+        { collection: 'empty', types: {} },
+      ])
+    ).toEqual(['users', 'events']);
+  });
+});
+
+describe('lookupReferences', () => {
+  it('reads equality $lookup stages as references from the view source', () => {
+    const references = lookupReferences([
+      {
+        collection: 'orderDetails',
+        options: {
+          viewOn: 'orders',
+          pipeline: [
+            { $match: { status: 'open' } },
+            {
+              $lookup: {
+                from: 'customers',
+                localField: 'customerId',
+                foreignField: '_id',
+                as: 'c',
+              },
+            },
+            { $lookup: { from: 'items', pipeline: [], as: 'i' } },
+          ],
+        },
+      },
+    ]);
+
+    expect(references).toEqual([
+      {
+        collection: 'orders',
+        field: 'customerId',
+        referencedCollection: 'customers',
+        referencedField: '_id',
+        view: 'orderDetails',
+      },
+    ]);
+  });
+});
+
+describe('scoreReference', () => {
+  it('adds the weight of each kind of evidence', () => {
+    expect(scoreReference({ name: true })).toEqual({
+      confidence: 0.4,
+      evidence: ['field name'],
+    });
+    expect(scoreReference({ name: true, objectId: true })).toEqual({
+      confidence: 0.6,
+      evidence: ['field name', 'ObjectId type'],
+    });
+  });
+
+  it('weighs sampled values by the share found', () => {
+    expect(scoreReference({ objectId: true, values: { matched: 3, checked: 4 } })).toEqual({
+      confidence: 0.5,
+      evidence: ['ObjectId type', '3/4 sampled values found'],
+    });
+    expect(scoreReference({ name: true, values: { matched: 0, checked: 0 } }).confidence).toBe(0.4);
+  });
+
+  it('caps the confidence at 1', () => {
+    const { confidence, evidence } = scoreReference({
+      name: true,
+      objectId: true,
+      values: { matched: 5, checked: 5 },
+      lookups: ['orderDetails', 'orderSummary'],
+    });
+
+    expect(confidence).toBe(1);
+    expect(evidence).toContain('$lookup in orderDetails, orderSummary');
+  });
+});
@@ -0,0 +1,176 @@
+import type { Document, ObjectId } from 'mongodb';
+import type { InferredReference } from '../types';
+import { getBsonType } from './mongo-inference';
+
+// How much each kind of evidence adds to a reference's confidence, capped at 1
+const EVIDENCE_WEIGHTS = {
+  name: 0.4,
+  objectId: 0.2,
+  values: 0.4,
+  lookup: 0.6,
+};
+
+// References below this confidence are too speculative to report
+export const MIN_REFERENCE_CONFIDENCE = 0.5;
+
+// ObjectId values checked against the referenced collection per field
+export const MAX_REFERENCE_VALUES = 20;
+
+// Lookups per database for ObjectId fields whose name matches no collection, since each one is
+// checked against every collection with ObjectId keys
+export const MAX_UNNAMED_LOOKUPS = 50;
+
+export interface LookupReference {
+  collection: string;
+  field: string;
+  referencedCollection: string;
+  referencedField: string;
+  view: string;
+}
+
+export interface ReferenceEvidence {
+  // The field name matches the referenced collection, e.g. `userId` -> `users`
+  name?: boolean;
+  objectId?: boolean;
+  // Share of sampled values found in the referenced collection's `_id`
+  values?: { matched: number; checked: number };
+  // Views whose `$lookup` stages join the two collections
+  lookups?: string[];
+}
+
+/**
+ * Find the collection a field name points at. `userId`, `user_id`, `userIds` and `users_ids`
+ * all match a `users` or `user` collection; the last segment of a nested path is used.
+ */
+export function matchCollectionByName(field: string, collections: string[]): string | undefined {
+  const name = field.split('.').pop()!.replace(/\[\]/g, '');
+  const match = /^(.+?)(?:_ids?|Ids?|IDs?)$/.exec(name);
+  if (!match) {
+    return undefined;
+  }
+
+  const stem = match[1].toLowerCase();
+  const candidates = [
+    stem,
+    `${stem}s`,
+    `${stem}es`,
+    stem.replace(/y$/, 'ies'),
+    stem.replace(/s$/, ''),
+  ];
+
+  return collections.find((collection) => candidates.includes(collection.toLowerCase()));
+}
+
+/**
+ * Return every value at a field path using the `inferFields` notation, descending into arrays
+ * wherever a segment ends with `[]`.
+ */
+export function getPathValues(doc: Document, path: string): unknown[] {
+  const [segment, ...rest] = path.split('.');
+  const [key, ...arrays] = segment.split('[]');
+
+  let values: unknown[] = [doc[key]];
+  arrays.forEach(() => {
+    values = values.flatMap((value) => (Array.isArray(value) ? value : []));
+  });
+
+  values = values.filter((value) => value !== undefined);
+
+  if (rest.length === 0) {
+    return values;
+  }
+
+  return values
+    .filter((value) => getBsonType(value) === 'object')
+    .flatMap((value) => getPathValues(value as Document, rest.join('.')));
+}
+
+/**
+ * Return the collections whose sampled or declared `_id` values are ObjectIds, the only ones a
+ * field of ObjectIds can point at through `_id`.
+ */
+export function objectIdKeyed(
+  collections: Array<{ collection: string; types: Record<string, string[]> }>
+): string[] {
+  return collections
+    .filter((coll) => (coll.types._id || []).includes('objectId'))
+    .map((coll) => coll.collection);
+}
+
+/**
+ * Collect the distinct ObjectId values at a path across sampled documents.
+ */
+export function sampleObjectIds(documents: Document[], path: string): ObjectId[] {
+  const ids = new Map<string, ObjectId>();
+
+  documents.forEach((doc) => {
+    getPathValues(doc, path)
+      .filter((value) => getBsonType(value) === 'objectId')
+      .forEach((value) => ids.set(String(value), value as ObjectId));
+  });
+
+  return Array.from(ids.values()).slice(0, MAX_REFERENCE_VALUES);
+}
+
+/**
+ * Read `$lookup` stages from view pipelines as references from the view's source collection.
+ * Only the equality form with `localField` and `foreignField` names a field pair.
+ */
+export function lookupReferences(
+  views: Array<{ collection: string; options?: Document }>
+): LookupReference[] {
+  return views.flatMap(({ collection, options }) =>
+    ((options?.pipeline as Document[] | undefined) || [])
+      .map((stage) => stage.$lookup as Document | undefined)
+      .filter(
+        (lookup): lookup is Document =>
+          !!lookup &&
+          typeof lookup.from === 'string' &&
+          typeof lookup.localField === 'string' &&
+          typeof lookup.foreignField === 'string'
+      )
+      .map((lookup) => ({
+        collection: options!.viewOn as string,
+        field: lookup.localField,
+        referencedCollection: lookup.from,
+        referencedField: lookup.foreignField,
+        view: collection,
+      }))
+  );
+}
+
+/**
+ * Turn the evidence for a reference into a confidence between 0 and 1 and a readable list of
+ * what supports it.
+ */
+export function scoreReference(
+  evidence: ReferenceEvidence
+): Pick<InferredReference, 'confidence' | 'evidence'> {
+  let confidence = 0;
+  const reasons: string[] = [];
+
+  if (evidence.name) {
+    confidence += EVIDENCE_WEIGHTS.name;
+    reasons.push('field name');
+  }
+
+  if (evidence.objectId) {
+    confidence += EVIDENCE_WEIGHTS.objectId;
+    reasons.push('ObjectId type');
+  }
+
+  if (evidence.values && evidence.values.checked > 0) {
+    confidence += EVIDENCE_WEIGHTS.values * (evidence.values.matched / evidence.values.checked);
+    reasons.push(`${evidence.values.matched}/${evidence.values.checked} sampled values found`);
+  }
+
+  if (evidence.lookups && evidence.lookups.length > 0) {
+    confidence += EVIDENCE_WEIGHTS.lookup;
+    reasons.push(`$lookup in ${evidence.lookups.join(', ')}`);
+  }
+
+  return {
+    confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+    evidence: reasons,
+  };
+}
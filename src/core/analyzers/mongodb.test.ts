@@ -0,0 +1,112 @@
+import { jest } from '@jest/globals';
+import type { ConnectionConfig } from '../types';
+import type { MongoSchema } from './mongodb';
+
+const mongodb = await import('mongodb');
+const { ObjectId } = mongodb;
+
+// Sampled documents per collection of the fake `app` database
+let collections: Record<string, Array<Record<string, unknown>>> = {};
+const lookups: Array<{ collection: string; ids: number }> = [];
+
+const cursor = <T>(items: T[]): { toArray: () => Promise<T[]> } => ({
+  toArray: async () => items,
+});
+
+const fakeDb = {
+  databaseName: 'app',
+  listCollections: () =>
+    cursor(Object.keys(collections).map((name) => ({ name, type: 'collection', options: {} }))),
+  collection: (name: string) => ({
+    aggregate: () => cursor(collections[name]),
+    indexes: async () => [{ name: '_id_', key: { _id: 1 } }],
+    countDocuments: async (filter: { _id: { $in: unknown[] } }) => {
+      lookups.push({ collection: name, ids: filter._id.$in.length });
+      const ids = new Set(collections[name].map((doc) => String(doc._id)));
+      return filter._id.$in.filter((id) => ids.has(String(id))).length;
+    },
+  }),
+};
+
+class FakeMongoClient {
+  connect = jest.fn(async () => this);
+  close = jest.fn(async () => undefined);
+  db = (): typeof fakeDb => fakeDb;
+}
+
+jest.unstable_mockModule('mongodb', () => ({ ...mongodb, MongoClient: FakeMongoClient }));
+
+const { MongoAnalyzer } = await import('./mongodb');
+
+const connection: ConnectionConfig = {
+  url: 'mongodb://localhost:27017/app',
+  sslMode: 'disable',
+  created: '2024-01-01T00:00:00.000Z',
+  tag: 'test',
+};
+
+async function analyze(): Promise<MongoSchema> {
+  lookups.length = 0;
+  const { schema } = await new MongoAnalyzer(connection, 5000).analyze();
+  return JSON.parse(schema) as MongoSchema;
+}
+
+describe('MongoAnalyzer reference inference', () => {
+  const alice = new ObjectId();
+  const bob = new ObjectId();
+
+  beforeEach(() => {
+    collections = {
+      users: [{ _id: alice }, { _id: bob }],
+      counters: [{ _id: 'orders', seq: 2 }],
+      orders: [
+        { _id: new ObjectId(), userId: alice, createdBy: bob },
+        { _id: new ObjectId(), userId: bob, createdBy: alice },
+      ],
+    };
+  });
+
+  it('scores references from names, ObjectId types and sampled values', async () => {
+    const orders = (await analyze()).databases.app.collections.find(
+      (coll) => coll.collection === 'orders'
+    );
+
+    expect(orders?.references).toEqual([
+      {
+        field: 'userId',
+        referencedDatabase: 'app',
+        referencedCollection: 'users',
+        referencedField: '_id',
+        confidence: 1,
+        evidence: ['field name', 'ObjectId type', '2/2 sampled values found'],
+      },
+      {
+        field: 'createdBy',
+        referencedDatabase: 'app',
+        referencedCollection: 'users',
+        referencedField: '_id',
+        confidence: 0.6,
+        evidence: ['ObjectId type', '2/2 sampled values found'],
+      },
+    ]);
+  });
+
+  it('only checks unnamed ObjectId fields against collections with ObjectId keys', async () => {
+    await analyze();
+
+    const unnamed = lookups.filter(({ collection }) => collection !== 'users');
+    expect(unnamed.map(({ collection }) => collection)).toEqual(['orders']);
+    expect(lookups.some(({ collection }) => collection === 'counters')).toBe(false);
+  });
+
+  it('caps the lookups for unnamed fields', async () => {
+    for (let i = 0; i < 60; i++) {
+      collections[`things${i}`] = [{ _id: new ObjectId() }];
+    }
+
+    await analyze();
+
+    // One lookup for the named userId field, the rest for createdBy
+    expect(lookups).toHaveLength(51);
+  });
+});
@@ -1,12 +1,45 @@
 import { MongoClient, Db, Document, IndexDescription } from 'mongodb';
-import type { SchemaStats, ConnectionConfig } from '../types';
+import type { SchemaStats, ConnectionConfig, AnalyzerOptions, InferredReference } from '../types';
+import { CONFIG } from '../../config/default';
+import { getDefaultSchemas } from '../../utils/helpers';
+import { inferFields, fieldsFromJsonSchema } from './mongo-inference';
+import { redactDocument } from './mongo-redaction';
+import {
+  MAX_UNNAMED_LOOKUPS,
+  MIN_REFERENCE_CONFIDENCE,
+  ReferenceEvidence,
+  lookupReferences,
+  matchCollectionByName,
+  objectIdKeyed,
+  sampleObjectIds,
+  scoreReference,
+} from './mongo-relationships';
 
 export interface MongoCollection {
   collection: string;
+  type: string;
+  // 'validator' when fields and types come from a $jsonSchema validator rather than sampling
+  fieldSource: 'validator' | 'sample';
   fields: string[];
   types: Record<string, string[]>;
+  presence: Record<string, number>;
+  required?: string[];
+  // Sampled fields the validator does not declare
+  undeclaredFields?: string[];
   indexes: IndexDescription[];
-  sampleData: Document;
+  validator?: Document;
+  options?: Document;
+  // Likely references to other collections, inferred since MongoDB has no foreign keys
+  references?: InferredReference[];
+  sampleData?: Document;
+}
+
+export interface MongoDatabase {
+  collections: MongoCollection[];
+}
+
+export interface MongoSchema {
+  databases: Record<string, MongoDatabase>;
 }
 
 export interface MongoDocument extends Document {
@@ -15,8 +48,14 @@ export interface MongoDocument extends Document {
 
 export class MongoAnalyzer {
   private client: MongoClient;
+  private connectionConfig: ConnectionConfig;
+  private sampleSize: number;
+  private options: AnalyzerOptions;
 
-  constructor(connectionConfig: ConnectionConfig, timeout: number) {
+  constructor(connectionConfig: ConnectionConfig, timeout: number, options: AnalyzerOptions = {}) {
+    this.connectionConfig = connectionConfig;
+    this.options = options;
+    this.sampleSize = connectionConfig.sampleSize || CONFIG.MONGODB_SAMPLE_SIZE;
     this.client = new MongoClient(connectionConfig.url, {
       serverSelectionTimeoutMS: timeout,
     });
@@ -25,62 +64,204 @@ export class MongoAnalyzer {
   public async analyze(): Promise<{ schema: string; stats: SchemaStats }> {
     try {
       await this.client.connect();
-      const db = this.client.db();
-      const collections = await this.extractCollections(db);
-      const stats = this.calculateStats(collections);
+      const schema: MongoSchema = { databases: {} };
+
+      for (const databaseName of this.getDatabaseNames()) {
+        const db = this.client.db(databaseName);
+        const samples = new Map<string, MongoDocument[]>();
+        const collections = await this.extractCollections(db, samples);
+        await this.inferReferences(db, collections, samples);
+        schema.databases[databaseName] = { collections };
+      }
 
       return {
-        schema: JSON.stringify(collections, null, 0),
-        stats,
+        schema: JSON.stringify(schema, null, 0),
+        stats: this.calculateStats(schema),
       };
     } finally {
       await this.client.close();
     }
   }
 
-  private async extractCollections(db: Db): Promise<MongoCollection[]> {
+  // Databases act as schemas, so `schiba schemas` selects which ones are extracted
+  private getDatabaseNames(): string[] {
+    return this.connectionConfig.schemas?.length
+      ? this.connectionConfig.schemas
+      : getDefaultSchemas('MONGODB', this.connectionConfig.url);
+  }
+
+  private async extractCollections(
+    db: Db,
+    samples: Map<string, MongoDocument[]>
+  ): Promise<MongoCollection[]> {
     const collections = await db.listCollections().toArray();
     const schemas: MongoCollection[] = [];
 
     for (const collection of collections) {
+      // Internal namespaces such as system.views and system.buckets.* back views and time series
+      if (collection.name.startsWith('system.')) {
+        continue;
+      }
+
+      const type = collection.type || 'collection';
+      const { validator, ...options } = ('options' in collection && collection.options) || {};
+      const jsonSchema = validator?.$jsonSchema;
+
       const sample = await db
         .collection<MongoDocument>(collection.name)
-        .aggregate<MongoDocument>([{ $sample: { size: 5 } }])
+        .aggregate<MongoDocument>([{ $sample: { size: this.sampleSize } }])
         .toArray();
 
-      if (sample.length > 0) {
-        const sampleDoc = sample[0];
-        schemas.push({
-          collection: collection.name,
-          fields: Array.from(new Set(sample.flatMap((doc: MongoDocument) => Object.keys(doc)))),
-          types: Object.fromEntries(
-            Object.keys(sampleDoc).map((key) => [
-              key,
-              Array.from(
-                new Set(sample.map((doc: MongoDocument) => typeof doc[key]).filter(Boolean))
-              ),
-            ])
-          ),
-          indexes: await db.collection(collection.name).indexes(),
-          sampleData: sampleDoc,
-        });
+      if (sample.length === 0 && !jsonSchema && type !== 'view') {
+        continue;
       }
+
+      samples.set(collection.name, sample);
+      const inferred = inferFields(sample);
+      const declared = jsonSchema ? fieldsFromJsonSchema(jsonSchema) : null;
+      const undeclaredFields = declared
+        ? inferred.fields.filter((field) => !declared.types[field])
+        : [];
+
+      schemas.push({
+        collection: collection.name,
+        type,
+        fieldSource: declared ? 'validator' : 'sample',
+        fields: declared ? declared.fields : inferred.fields,
+        types: declared ? declared.types : inferred.types,
+        presence:
+          declared && sample.length > 0
+            ? Object.fromEntries(
+                declared.fields.map((field) => [field, inferred.presence[field] ?? 0])
+              )
+            : inferred.presence,
+        ...(declared && declared.required.length > 0 ? { required: declared.required } : {}),
+        ...(undeclaredFields.length > 0 ? { undeclaredFields } : {}),
+        // Views have no indexes of their own
+        indexes: type === 'view' ? [] : await db.collection(collection.name).indexes(),
+        ...(validator ? { validator } : {}),
+        ...(Object.keys(options).length > 0 ? { options } : {}),
+        ...(sample.length > 0
+          ? { sampleData: redactDocument(sample[0], this.options.redaction) }
+          : {}),
+      });
     }
 
     return schemas;
   }
 
-  private calculateStats(collections: MongoCollection[]): SchemaStats {
+  /**
+   * Attach likely references between collections in one database. Evidence comes from field
+   * names, ObjectId types, sampled values that exist in another collection's `_id` and `$lookup`
+   * stages in view pipelines.
+   */
+  private async inferReferences(
+    db: Db,
+    collections: MongoCollection[],
+    samples: Map<string, MongoDocument[]>
+  ): Promise<void> {
+    const names = collections.filter((coll) => coll.type !== 'view').map((coll) => coll.collection);
+    const objectIdTargets = objectIdKeyed(collections.filter((coll) => coll.type !== 'view'));
+    let unnamedLookups = 0;
+    const candidates = new Map<
+      string,
+      { collection: string; field: string; target: string; targetField: string }
+    >();
+    const evidence = new Map<string, ReferenceEvidence>();
+    const key = (collection: string, field: string, target: string, targetField: string): string =>
+      JSON.stringify([collection, field, target, targetField]);
+
+    for (const coll of collections.filter(({ type }) => type !== 'view')) {
+      for (const field of coll.fields) {
+        const types = coll.types[field] || [];
+        // Array elements are checked through their `[]` path instead
+        if (field === '_id' || field.startsWith('_id.') || coll.fields.includes(`${field}[]`)) {
+          continue;
+        }
+
+        const named = matchCollectionByName(field, names);
+        const objectId = types.includes('objectId');
+        if (!named && !objectId) {
+          continue;
+        }
+
+        const ids = sampleObjectIds(samples.get(coll.collection) || [], field);
+        let targets = named ? [named] : [];
+        if (!named && ids.length > 0) {
+          targets = objectIdTargets.slice(0, MAX_UNNAMED_LOOKUPS - unnamedLookups);
+          unnamedLookups += targets.length;
+        }
+
+        for (const target of targets) {
+          const matched =
+            ids.length > 0 ? await db.collection(target).countDocuments({ _id: { $in: ids } }) : 0;
+
+          // Without a matching name, only values that resolve suggest a reference
+          if (!named && matched === 0) {
+            continue;
+          }
+
+          const id = key(coll.collection, field, target, '_id');
+          candidates.set(id, { collection: coll.collection, field, target, targetField: '_id' });
+          evidence.set(id, {
+            name: !!named,
+            objectId,
+            ...(ids.length > 0 ? { values: { matched, checked: ids.length } } : {}),
+          });
+        }
+      }
+    }
+
+    lookupReferences(collections.filter(({ type }) => type === 'view')).forEach((lookup) => {
+      const id = key(
+        lookup.collection,
+        lookup.field,
+        lookup.referencedCollection,
+        lookup.referencedField
+      );
+      const existing = evidence.get(id) || {};
+      candidates.set(id, {
+        collection: lookup.collection,
+        field: lookup.field,
+        target: lookup.referencedCollection,
+        targetField: lookup.referencedField,
+      });
+      evidence.set(id, { ...existing, lookups: [...(existing.lookups || []), lookup.view] });
+    });
+
+    collections.forEach((coll) => {
+      const references = Array.from(candidates.entries())
+        .filter(([, candidate]) => candidate.collection === coll.collection)
+        .map(([id, { field, target, targetField }]) => ({
+          field,
+          referencedDatabase: db.databaseName,
+          referencedCollection: target,
+          referencedField: targetField,
+          ...scoreReference(evidence.get(id)!),
+        }))
+        .filter(({ confidence }) => confidence >= MIN_REFERENCE_CONFIDENCE);
+
+      if (references.length > 0) {
+        coll.references = references;
+      }
+    });
+  }
+
+  private calculateStats(schema: MongoSchema): SchemaStats {
+    const collections = Object.values(schema.databases).flatMap((db) => db.collections);
     const totalFields = collections.reduce((acc, coll) => acc + coll.fields.length, 0);
     const totalIndexes = collections.reduce((acc, coll) => acc + coll.indexes.length, 0);
 
     return {
-      totalSize: JSON.stringify(collections).length,
+      totalSize: JSON.stringify(schema).length,
       objectCount: collections.length,
+      schemas: Object.keys(schema.databases),
       details: {
-        collections: collections.length,
+        collections: collections.filter((coll) => coll.type !== 'view').length,
+        views: collections.filter((coll) => coll.type === 'view').length,
         fields: totalFields,
         indexes: totalIndexes,
+        relations: collections.reduce((acc, coll) => acc + (coll.references?.length || 0), 0),
       },
     };
   }
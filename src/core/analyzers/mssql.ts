@@ -0,0 +1,500 @@
+import {
+  ConnectionPool,
+  buildMssqlConfig,
+  bindList,
+  type MssqlClient,
+} from '../../utils/mssql-client';
+import { getDefaultSchemas } from '../../utils/helpers';
+import type {
+  SchemaStats,
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  TableConstraint,
+} from '../types';
+import { calculateRelationalStats } from './stats';
+import chalk from 'chalk';
+
+export interface MssqlTable {
+  columns?: Array<{
+    column: string;
+    type: string;
+    nullable: string;
+    default: string | null;
+    constraints: string[] | null;
+    description?: string;
+  }>;
+  indexes?: Array<{
+    name: string;
+    definition: string;
+  }>;
+  foreignKeys?: ForeignKeyDefinition[];
+  constraints?: TableConstraint[];
+  description?: string | null;
+}
+
+export interface MssqlSchema {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<string, MssqlTable>;
+      enums?: Record<string, string[]>;
+    }
+  >;
+}
+
+interface TableRow {
+  schema_name: string;
+  table_name: string;
+  description: string | null;
+}
+
+interface ColumnRow {
+  schema_name: string;
+  table_name: string;
+  column_name: string;
+  type_name: string;
+  max_length: number;
+  precision: number;
+  scale: number;
+  is_nullable: boolean;
+  is_identity: boolean;
+  seed_value: string | null;
+  increment_value: string | null;
+  default_definition: string | null;
+  description: string | null;
+}
+
+interface IndexRow {
+  schema_name: string;
+  table_name: string;
+  index_name: string;
+  type_desc: string;
+  is_unique: boolean;
+  is_primary_key: boolean;
+  is_unique_constraint: boolean;
+  filter_definition: string | null;
+  column_name: string;
+  is_descending_key: boolean;
+  is_included_column: boolean;
+}
+
+interface ForeignKeyRow {
+  schema_name: string;
+  table_name: string;
+  constraint_name: string;
+  column_name: string;
+  referenced_schema: string;
+  referenced_table: string;
+  referenced_column: string;
+  delete_action: string;
+  update_action: string;
+}
+
+interface CheckConstraintRow {
+  schema_name: string;
+  table_name: string;
+  constraint_name: string;
+  definition: string;
+  column_name: string | null;
+}
+
+export class MssqlAnalyzer {
+  private connectionConfig: ConnectionConfig;
+  private client: MssqlClient;
+
+  constructor(connectionConfig: ConnectionConfig, timeout: number) {
+    this.connectionConfig = connectionConfig;
+    this.client = new ConnectionPool(buildMssqlConfig(connectionConfig, timeout));
+  }
+
+  public async analyze(): Promise<{ schema: string; stats: SchemaStats }> {
+    try {
+      await this.client.connect();
+      const result = await this.extractSchema();
+      const stats = this.calculateStats(result);
+
+      return {
+        schema: JSON.stringify(result, null, 0),
+        stats,
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  private getSchemaNames(): string[] {
+    return this.connectionConfig.schemas || getDefaultSchemas('MSSQL');
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (errorCode === 'ELOGIN' || message.includes('Login failed')) {
+      return new Error('Authentication failed: Invalid username or password');
+    }
+
+    if (message.includes('certificate')) {
+      return new Error(
+        `SSL certificate verification failed.\n\n` +
+          chalk.yellow('To trust the server certificate, change the SSL mode:') +
+          '\n' +
+          `  ${chalk.cyan(`schiba update ${this.connectionConfig.tag} ssl-mode require`)}\n`
+      );
+    }
+
+    if (errorCode === 'ETIMEOUT' || message.includes('ETIMEDOUT')) {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Timeout: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1433'}`)} within the timeout period.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is responding.\n` +
+          `  2. Network latency or firewall rules may be causing delays.\n` +
+          `  3. Try increasing the timeout with --timeout option.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (errorCode === 'ESOCKET' || message.includes('ECONNREFUSED')) {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Refused: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1433'}`)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is running and accessible.\n` +
+          `  2. The host and port in your connection details are correct.\n` +
+          `  3. TCP/IP is enabled in SQL Server Configuration Manager.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+
+  private async query<T>(
+    sqlText: (schemaList: string) => string,
+    schemaNames: string[]
+  ): Promise<T[]> {
+    const request = this.client.request();
+    const schemaList = bindList(request, 'schema', schemaNames);
+    const result = await request.query<T>(sqlText(schemaList));
+    return result.recordset;
+  }
+
+  private async extractSchema(): Promise<MssqlSchema> {
+    const schemaNames = this.getSchemaNames();
+
+    const tableRows = await this.query<TableRow>(
+      (schemaList) => `
+      SELECT
+        s.name AS schema_name,
+        t.name AS table_name,
+        CAST(ep.value AS nvarchar(max)) AS description
+      FROM sys.tables t
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      LEFT JOIN sys.extended_properties ep
+        ON ep.class = 1 AND ep.major_id = t.object_id AND ep.minor_id = 0
+        AND ep.name = 'MS_Description'
+      WHERE s.name IN (${schemaList}) AND t.is_ms_shipped = 0
+      ORDER BY s.name, t.name
+    `,
+      schemaNames
+    );
+
+    const columnRows = await this.query<ColumnRow>(
+      (schemaList) => `
+      SELECT
+        s.name AS schema_name,
+        t.name AS table_name,
+        c.name AS column_name,
+        ty.name AS type_name,
+        c.max_length,
+        c.precision,
+        c.scale,
+        c.is_nullable,
+        c.is_identity,
+        CAST(ic.seed_value AS nvarchar(50)) AS seed_value,
+        CAST(ic.increment_value AS nvarchar(50)) AS increment_value,
+        dc.definition AS default_definition,
+        CAST(ep.value AS nvarchar(max)) AS description
+      FROM sys.columns c
+      JOIN sys.tables t ON t.object_id = c.object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      JOIN sys.types ty ON ty.user_type_id = c.user_type_id
+      LEFT JOIN sys.identity_columns ic
+        ON ic.object_id = c.object_id AND ic.column_id = c.column_id
+      LEFT JOIN sys.default_constraints dc ON dc.object_id = c.default_object_id
+      LEFT JOIN sys.extended_properties ep
+        ON ep.class = 1 AND ep.major_id = c.object_id AND ep.minor_id = c.column_id
+        AND ep.name = 'MS_Description'
+      WHERE s.name IN (${schemaList}) AND t.is_ms_shipped = 0
+      ORDER BY s.name, t.name, c.column_id
+    `,
+      schemaNames
+    );
+
+    const indexRows = await this.query<IndexRow>(
+      (schemaList) => `
+      SELECT
+        s.name AS schema_name,
+        t.name AS table_name,
+        i.name AS index_name,
+        i.type_desc,
+        i.is_unique,
+        i.is_primary_key,
+        i.is_unique_constraint,
+        i.filter_definition,
+        c.name AS column_name,
+        ic.is_descending_key,
+        ic.is_included_column
+      FROM sys.indexes i
+      JOIN sys.tables t ON t.object_id = i.object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE s.name IN (${schemaList}) AND i.type > 0 AND t.is_ms_shipped = 0
+      ORDER BY s.name, t.name, i.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id
+    `,
+      schemaNames
+    );
+
+    const foreignKeyRows = await this.query<ForeignKeyRow>(
+      (schemaList) => `
+      SELECT
+        s.name AS schema_name,
+        t.name AS table_name,
+        fk.name AS constraint_name,
+        pc.name AS column_name,
+        rs.name AS referenced_schema,
+        rt.name AS referenced_table,
+        rc.name AS referenced_column,
+        fk.delete_referential_action_desc AS delete_action,
+        fk.update_referential_action_desc AS update_action
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.tables t ON t.object_id = fk.parent_object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      JOIN sys.columns pc
+        ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+      JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+      JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+      JOIN sys.columns rc
+        ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+      WHERE s.name IN (${schemaList})
+      ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id
+    `,
+      schemaNames
+    );
+
+    const checkRows = await this.query<CheckConstraintRow>(
+      (schemaList) => `
+      SELECT
+        s.name AS schema_name,
+        t.name AS table_name,
+        cc.name AS constraint_name,
+        cc.definition,
+        c.name AS column_name
+      FROM sys.check_constraints cc
+      JOIN sys.tables t ON t.object_id = cc.parent_object_id
+      JOIN sys.schemas s ON s.schema_id = t.schema_id
+      LEFT JOIN sys.columns c
+        ON c.object_id = cc.parent_object_id AND c.column_id = cc.parent_column_id
+      WHERE s.name IN (${schemaList})
+      ORDER BY s.name, t.name, cc.name
+    `,
+      schemaNames
+    );
+
+    const result: MssqlSchema = { schemas: {} };
+    const schemas = result.schemas!;
+
+    tableRows.forEach((row) => {
+      schemas[row.schema_name] ??= { tables: {} };
+      schemas[row.schema_name].tables![row.table_name] = {
+        columns: [],
+        description: row.description,
+        indexes: [],
+        foreignKeys: [],
+        constraints: [],
+      };
+    });
+
+    const getTable = (schemaName: string, tableName: string): MssqlTable | undefined =>
+      schemas[schemaName]?.tables?.[tableName];
+
+    const columnConstraints = new Map<string, string[]>();
+    const addConstraint = (
+      row: { schema_name: string; table_name: string },
+      column: string,
+      type: string
+    ): void => {
+      const key = `${row.schema_name}.${row.table_name}.${column}`;
+      const existing = columnConstraints.get(key) || [];
+      if (!existing.includes(type)) {
+        existing.push(type);
+      }
+      columnConstraints.set(key, existing);
+    };
+
+    indexRows
+      .filter((row) => !row.is_included_column)
+      .forEach((row) => {
+        if (row.is_primary_key) addConstraint(row, row.column_name, 'PRIMARY KEY');
+        if (row.is_unique_constraint) addConstraint(row, row.column_name, 'UNIQUE');
+      });
+    foreignKeyRows.forEach((row) => addConstraint(row, row.column_name, 'FOREIGN KEY'));
+    checkRows
+      .filter((row) => row.column_name)
+      .forEach((row) => addConstraint(row, row.column_name!, 'CHECK'));
+
+    columnRows.forEach((row) => {
+      const table = getTable(row.schema_name, row.table_name);
+      if (!table) return;
+
+      table.columns!.push({
+        column: row.column_name,
+        type: formatMssqlType(row.type_name, row.max_length, row.precision, row.scale),
+        nullable: row.is_nullable ? 'YES' : 'NO',
+        default: row.is_identity
+          ? `IDENTITY(${row.seed_value},${row.increment_value})`
+          : row.default_definition,
+        constraints:
+          columnConstraints.get(`${row.schema_name}.${row.table_name}.${row.column_name}`) || null,
+        ...(row.description ? { description: row.description } : {}),
+      });
+    });
+
+    this.groupIndexes(indexRows).forEach(({ schemaName, tableName, index }) => {
+      getTable(schemaName, tableName)?.indexes!.push(index);
+    });
+
+    this.groupForeignKeys(foreignKeyRows).forEach(({ schemaName, tableName, foreignKey }) => {
+      getTable(schemaName, tableName)?.foreignKeys!.push(foreignKey);
+    });
+
+    checkRows.forEach((row) => {
+      getTable(row.schema_name, row.table_name)?.constraints!.push({
+        name: row.constraint_name,
+        type: 'CHECK',
+        columns: row.column_name ? [row.column_name] : [],
+        definition: `CHECK ${row.definition}`,
+      });
+    });
+
+    return result;
+  }
+
+  private groupIndexes(
+    rows: IndexRow[]
+  ): Array<{ schemaName: string; tableName: string; index: { name: string; definition: string } }> {
+    const grouped = new Map<string, { first: IndexRow; keys: string[]; included: string[] }>();
+
+    rows.forEach((row) => {
+      const key = `${row.schema_name}.${row.table_name}.${row.index_name}`;
+      const entry = grouped.get(key) || { first: row, keys: [], included: [] };
+      if (row.is_included_column) {
+        entry.included.push(`[${row.column_name}]`);
+      } else {
+        entry.keys.push(`[${row.column_name}] ${row.is_descending_key ? 'DESC' : 'ASC'}`);
+      }
+      grouped.set(key, entry);
+    });
+
+    return Array.from(grouped.values()).map(({ first, keys, included }) => {
+      const target = `[${first.schema_name}].[${first.table_name}]`;
+      let definition: string;
+
+      if (first.is_primary_key) {
+        definition = `ALTER TABLE ${target} ADD CONSTRAINT [${first.index_name}] PRIMARY KEY ${first.type_desc} (${keys.join(', ')})`;
+      } else {
+        const unique = first.is_unique ? 'UNIQUE ' : '';
+        definition = `CREATE ${unique}${first.type_desc} INDEX [${first.index_name}] ON ${target} (${keys.join(', ')})`;
+        if (included.length > 0) {
+          definition += ` INCLUDE (${included.join(', ')})`;
+        }
+        if (first.filter_definition) {
+          definition += ` WHERE ${first.filter_definition}`;
+        }
+      }
+
+      return {
+        schemaName: first.schema_name,
+        tableName: first.table_name,
+        index: { name: first.index_name, definition },
+      };
+    });
+  }
+
+  private groupForeignKeys(
+    rows: ForeignKeyRow[]
+  ): Array<{ schemaName: string; tableName: string; foreignKey: ForeignKeyDefinition }> {
+    const grouped = new Map<
+      string,
+      { schemaName: string; tableName: string; foreignKey: ForeignKeyDefinition }
+    >();
+
+    rows.forEach((row) => {
+      const key = `${row.schema_name}.${row.table_name}.${row.constraint_name}`;
+      const entry = grouped.get(key) || {
+        schemaName: row.schema_name,
+        tableName: row.table_name,
+        foreignKey: {
+          name: row.constraint_name,
+          columns: [],
+          referencedSchema: row.referenced_schema,
+          referencedTable: row.referenced_table,
+          referencedColumns: [],
+          // sys.foreign_keys reports actions as NO_ACTION, SET_NULL, ...
+          onDelete: row.delete_action.replace(/_/g, ' '),
+          onUpdate: row.update_action.replace(/_/g, ' '),
+        },
+      };
+      entry.foreignKey.columns.push(row.column_name);
+      entry.foreignKey.referencedColumns.push(row.referenced_column);
+      grouped.set(key, entry);
+    });
+
+    return Array.from(grouped.values());
+  }
+
+  private calculateStats(schema: MssqlSchema): SchemaStats {
+    return calculateRelationalStats(schema, this.getSchemaNames());
+  }
+}
+
+/**
+ * Render a SQL Server column type with its length, precision or scale,
+ * e.g. `nvarchar(255)`, `varchar(max)`, `decimal(12,2)` or `datetime2(7)`.
+ */
+export function formatMssqlType(
+  typeName: string,
+  maxLength: number,
+  precision: number,
+  scale: number
+): string {
+  const length = (bytes: number): string => (maxLength === -1 ? 'max' : String(bytes));
+
+  switch (typeName) {
+    case 'varchar':
+    case 'char':
+    case 'varbinary':
+    case 'binary':
+      return `${typeName}(${length(maxLength)})`;
+    case 'nvarchar':
+    case 'nchar':
+      // max_length is reported in bytes, and these types use two bytes per character
+      return `${typeName}(${length(maxLength / 2)})`;
+    case 'decimal':
+    case 'numeric':
+      return `${typeName}(${precision},${scale})`;
+    case 'datetime2':
+    case 'datetimeoffset':
+    case 'time':
+      return `${typeName}(${scale})`;
+    default:
+      return typeName;
+  }
+}
@@ -0,0 +1,414 @@
+import type { RowDataPacket } from 'mysql2/promise';
+import {
+  createConnection,
+  buildMySQLConfig,
+  getMySQLDatabase,
+  type MySQLClient,
+} from '../../utils/mysql-client';
+import type { SchemaStats, ConnectionConfig, ForeignKeyDefinition } from '../types';
+import { calculateRelationalStats } from './stats';
+import chalk from 'chalk';
+
+export interface MySQLTable {
+  columns?: Array<{
+    column: string;
+    type: string;
+    nullable: string;
+    default: string | null;
+    constraints: string[] | null;
+  }>;
+  indexes?: Array<{
+    name: string;
+    definition: string;
+  }>;
+  foreignKeys?: ForeignKeyDefinition[];
+  description?: string | null;
+}
+
+export interface MySQLSchema {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<string, MySQLTable>;
+      enums?: Record<string, string[]>;
+    }
+  >;
+}
+
+interface TableRow extends RowDataPacket {
+  table_schema: string;
+  table_name: string;
+  table_comment: string | null;
+}
+
+interface ColumnRow extends RowDataPacket {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  column_type: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+  extra: string | null;
+}
+
+interface IndexRow extends RowDataPacket {
+  table_schema: string;
+  table_name: string;
+  index_name: string;
+  non_unique: number | string;
+  column_name: string | null;
+  sub_part: number | null;
+  index_type: string;
+}
+
+interface ConstraintRow extends RowDataPacket {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  constraint_type: string;
+}
+
+interface ForeignKeyRow extends RowDataPacket {
+  table_schema: string;
+  table_name: string;
+  constraint_name: string;
+  column_name: string;
+  referenced_table_schema: string;
+  referenced_table_name: string;
+  referenced_column_name: string;
+  update_rule: string;
+  delete_rule: string;
+}
+
+export class MySQLAnalyzer {
+  private connectionConfig: ConnectionConfig;
+  private timeout: number;
+  private client: MySQLClient | null = null;
+
+  constructor(connectionConfig: ConnectionConfig, timeout: number) {
+    this.connectionConfig = connectionConfig;
+    this.timeout = timeout;
+  }
+
+  public async analyze(): Promise<{ schema: string; stats: SchemaStats }> {
+    try {
+      this.client = await createConnection(buildMySQLConfig(this.connectionConfig, this.timeout));
+      const result = await this.extractSchema(this.client);
+      const stats = this.calculateStats(result);
+
+      return {
+        schema: JSON.stringify(result, null, 0),
+        stats,
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    } finally {
+      await this.client?.end();
+      this.client = null;
+    }
+  }
+
+  private getSchemaNames(): string[] {
+    if (this.connectionConfig.schemas && this.connectionConfig.schemas.length > 0) {
+      return this.connectionConfig.schemas;
+    }
+
+    const database = getMySQLDatabase(this.connectionConfig.url);
+    if (!database) {
+      throw new Error(
+        'No database specified in the connection string.\n\n' +
+          `Add one with ${chalk.cyan(`schiba update ${this.connectionConfig.tag} database <name>`)}`
+      );
+    }
+
+    return [database];
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (errorCode === 'ER_ACCESS_DENIED_ERROR' || message.includes('Access denied')) {
+      return new Error('Authentication failed: Invalid username or password');
+    }
+
+    if (errorCode === 'ER_BAD_DB_ERROR') {
+      return new Error(
+        `${message}\n\n` +
+          `You can update the database name using ${chalk.cyan(`schiba update ${this.connectionConfig.tag} database <name>`)}`
+      );
+    }
+
+    if (message.includes('ECONNREFUSED') || errorCode === 'ECONNREFUSED') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Refused: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '3306'}`)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is running and accessible.\n` +
+          `  2. The host and port in your connection details are correct.\n` +
+          `  3. Firewalls or network security groups are not blocking the connection.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (message.includes('ETIMEDOUT') || errorCode === 'ETIMEDOUT') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Timeout: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '3306'}`)} within the timeout period.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is responding.\n` +
+          `  2. Network latency or firewall rules may be causing delays.\n` +
+          `  3. Try increasing the timeout with --timeout option.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (message.includes('ENOTFOUND') || errorCode === 'ENOTFOUND') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Host Not Found: Could not resolve hostname ${chalk.cyan(`${url.hostname}`)}.\n\n` +
+          `You can update the hostname using ${chalk.cyan(`schiba update ${this.connectionConfig.tag} host <correct-hostname>`)}`
+      );
+    }
+
+    if (message.includes('does not support secure connection')) {
+      return new Error(
+        `The server does not support SSL connections.\n\n` +
+          `To fix this, disable SSL for your connection:\n` +
+          `  ${chalk.cyan(`schiba update ${this.connectionConfig.tag} ssl-mode disable`)}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+
+  private async extractSchema(client: MySQLClient): Promise<MySQLSchema> {
+    const schemaNames = this.getSchemaNames();
+
+    const [tableRows] = await client.query<TableRow[]>(
+      `
+      SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, TABLE_COMMENT AS table_comment
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA IN (?) AND TABLE_TYPE = 'BASE TABLE'
+      ORDER BY TABLE_SCHEMA, TABLE_NAME
+    `,
+      [schemaNames]
+    );
+
+    const [columnRows] = await client.query<ColumnRow[]>(
+      `
+      SELECT
+        TABLE_SCHEMA AS table_schema,
+        TABLE_NAME AS table_name,
+        COLUMN_NAME AS column_name,
+        COLUMN_TYPE AS column_type,
+        DATA_TYPE AS data_type,
+        IS_NULLABLE AS is_nullable,
+        COLUMN_DEFAULT AS column_default,
+        EXTRA AS extra
+      FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA IN (?)
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+    `,
+      [schemaNames]
+    );
+
+    const [indexRows] = await client.query<IndexRow[]>(
+      `
+      SELECT
+        TABLE_SCHEMA AS table_schema,
+        TABLE_NAME AS table_name,
+        INDEX_NAME AS index_name,
+        NON_UNIQUE AS non_unique,
+        COLUMN_NAME AS column_name,
+        SUB_PART AS sub_part,
+        INDEX_TYPE AS index_type
+      FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA IN (?)
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX
+    `,
+      [schemaNames]
+    );
+
+    const [constraintRows] = await client.query<ConstraintRow[]>(
+      `
+      SELECT DISTINCT
+        kcu.TABLE_SCHEMA AS table_schema,
+        kcu.TABLE_NAME AS table_name,
+        kcu.COLUMN_NAME AS column_name,
+        tc.CONSTRAINT_TYPE AS constraint_type
+      FROM information_schema.TABLE_CONSTRAINTS tc
+      JOIN information_schema.KEY_COLUMN_USAGE kcu
+        ON kcu.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+        AND kcu.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+        AND kcu.TABLE_NAME = tc.TABLE_NAME
+      WHERE tc.TABLE_SCHEMA IN (?)
+    `,
+      [schemaNames]
+    );
+
+    const [foreignKeyRows] = await client.query<ForeignKeyRow[]>(
+      `
+      SELECT
+        kcu.TABLE_SCHEMA AS table_schema,
+        kcu.TABLE_NAME AS table_name,
+        kcu.CONSTRAINT_NAME AS constraint_name,
+        kcu.COLUMN_NAME AS column_name,
+        kcu.REFERENCED_TABLE_SCHEMA AS referenced_table_schema,
+        kcu.REFERENCED_TABLE_NAME AS referenced_table_name,
+        kcu.REFERENCED_COLUMN_NAME AS referenced_column_name,
+        rc.UPDATE_RULE AS update_rule,
+        rc.DELETE_RULE AS delete_rule
+      FROM information_schema.KEY_COLUMN_USAGE kcu
+      JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+        ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+        AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+      WHERE kcu.TABLE_SCHEMA IN (?) AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+      ORDER BY kcu.TABLE_SCHEMA, kcu.TABLE_NAME, kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+    `,
+      [schemaNames]
+    );
+
+    const result: MySQLSchema = { schemas: {} };
+    const schemas = result.schemas!;
+
+    tableRows.forEach((row) => {
+      schemas[row.table_schema] ??= { tables: {} };
+      schemas[row.table_schema].tables![row.table_name] = {
+        columns: [],
+        description: row.table_comment || null,
+        indexes: [],
+        foreignKeys: [],
+      };
+    });
+
+    const getTable = (schemaName: string, tableName: string): MySQLTable | undefined =>
+      schemas[schemaName]?.tables?.[tableName];
+
+    const columnConstraints = new Map<string, string[]>();
+    constraintRows.forEach((row) => {
+      const key = `${row.table_schema}.${row.table_name}.${row.column_name}`;
+      const existing = columnConstraints.get(key) || [];
+      if (!existing.includes(row.constraint_type)) {
+        existing.push(row.constraint_type);
+      }
+      columnConstraints.set(key, existing);
+    });
+
+    columnRows.forEach((row) => {
+      const table = getTable(row.table_schema, row.table_name);
+      if (!table) return;
+
+      const isAutoIncrement = (row.extra || '').toLowerCase().includes('auto_increment');
+      table.columns!.push({
+        column: row.column_name,
+        type: row.column_type,
+        nullable: row.is_nullable,
+        default: row.column_default ?? (isAutoIncrement ? 'auto_increment' : null),
+        constraints:
+          columnConstraints.get(`${row.table_schema}.${row.table_name}.${row.column_name}`) || null,
+      });
+
+      if (row.data_type === 'enum' || row.data_type === 'set') {
+        const enums = (schemas[row.table_schema].enums ??= {});
+        enums[`${row.table_name}.${row.column_name}`] = parseEnumValues(row.column_type);
+      }
+    });
+
+    this.groupIndexes(indexRows).forEach(({ schemaName, tableName, index }) => {
+      getTable(schemaName, tableName)?.indexes!.push(index);
+    });
+
+    this.groupForeignKeys(foreignKeyRows).forEach(({ schemaName, tableName, foreignKey }) => {
+      getTable(schemaName, tableName)?.foreignKeys!.push(foreignKey);
+    });
+
+    return result;
+  }
+
+  private groupIndexes(
+    rows: IndexRow[]
+  ): Array<{ schemaName: string; tableName: string; index: { name: string; definition: string } }> {
+    const grouped = new Map<string, { first: IndexRow; parts: string[] }>();
+
+    rows.forEach((row) => {
+      const key = `${row.table_schema}.${row.table_name}.${row.index_name}`;
+      const entry = grouped.get(key) || { first: row, parts: [] };
+      const part = row.column_name
+        ? `\`${row.column_name}\`${row.sub_part ? `(${row.sub_part})` : ''}`
+        : '(expression)';
+      entry.parts.push(part);
+      grouped.set(key, entry);
+    });
+
+    return Array.from(grouped.values()).map(({ first, parts }) => {
+      const isPrimary = first.index_name === 'PRIMARY';
+      const isUnique = String(first.non_unique) === '0';
+      const kind = isPrimary ? 'PRIMARY KEY' : isUnique ? 'UNIQUE INDEX' : 'INDEX';
+      const name = isPrimary ? '' : ` \`${first.index_name}\``;
+
+      return {
+        schemaName: first.table_schema,
+        tableName: first.table_name,
+        index: {
+          name: first.index_name,
+          definition: `${kind}${name} ON \`${first.table_name}\` (${parts.join(', ')}) USING ${first.index_type}`,
+        },
+      };
+    });
+  }
+
+  private groupForeignKeys(
+    rows: ForeignKeyRow[]
+  ): Array<{ schemaName: string; tableName: string; foreignKey: ForeignKeyDefinition }> {
+    const grouped = new Map<
+      string,
+      { schemaName: string; tableName: string; foreignKey: ForeignKeyDefinition }
+    >();
+
+    rows.forEach((row) => {
+      const key = `${row.table_schema}.${row.table_name}.${row.constraint_name}`;
+      const entry = grouped.get(key) || {
+        schemaName: row.table_schema,
+        tableName: row.table_name,
+        foreignKey: {
+          name: row.constraint_name,
+          columns: [],
+          referencedSchema: row.referenced_table_schema,
+          referencedTable: row.referenced_table_name,
+          referencedColumns: [],
+          onDelete: row.delete_rule,
+          onUpdate: row.update_rule,
+        },
+      };
+      entry.foreignKey.columns.push(row.column_name);
+      entry.foreignKey.referencedColumns.push(row.referenced_column_name);
+      grouped.set(key, entry);
+    });
+
+    return Array.from(grouped.values());
+  }
+
+  private calculateStats(schema: MySQLSchema): SchemaStats {
+    return calculateRelationalStats(schema, this.getSchemaNames());
+  }
+}
+
+/**
+ * Parse the values out of a MySQL `enum('a','b')` or `set('a','b')` column type.
+ */
+export function parseEnumValues(columnType: string): string[] {
+  const body = columnType.slice(columnType.indexOf('(') + 1, columnType.lastIndexOf(')'));
+  const values: string[] = [];
+  const pattern = /'((?:[^'\\]|''|\\.)*)'/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body)) !== null) {
+    values.push(match[1].replace(/''/g, "'").replace(/\\(.)/g, '$1'));
+  }
+
+  return values;
+}
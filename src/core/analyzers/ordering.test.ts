@@ -0,0 +1,115 @@
+import { sortSchemaOutput } from './ordering';
+
+const sort = (schema: unknown): unknown => JSON.parse(sortSchemaOutput(JSON.stringify(schema)));
+
+describe('sortSchemaOutput', () => {
+  it('sorts schemas, tables and their unordered lists by name', () => {
+    const sorted = sort({
+      schemas: {
+        sales: { tables: {} },
+        public: {
+          tables: {
+            users: {
+              columns: [{ column: 'id' }, { column: 'email' }],
+              indexes: [{ name: 'users_email_idx' }, { name: 'users_pkey' }, { name: 'a_idx' }],
+              foreignKeys: [{ name: 'b_fkey' }, { name: 'a_fkey' }],
+            },
+            accounts: { columns: [] },
+          },
+          views: { v2: { indexes: [{ name: 'z' }, { name: 'y' }] }, v1: {} },
+        },
+      },
+    }) as { schemas: Record<string, { tables: Record<string, Record<string, unknown>> }> };
+
+    expect(Object.keys(sorted.schemas)).toEqual(['public', 'sales']);
+    expect(Object.keys(sorted.schemas.public.tables)).toEqual(['accounts', 'users']);
+    expect(sorted.schemas.public.tables.users).toEqual({
+      columns: [{ column: 'id' }, { column: 'email' }],
+      indexes: [{ name: 'a_idx' }, { name: 'users_email_idx' }, { name: 'users_pkey' }],
+      foreignKeys: [{ name: 'a_fkey' }, { name: 'b_fkey' }],
+    });
+    expect(sorted).toMatchObject({
+      schemas: { public: { views: { v1: {}, v2: { indexes: [{ name: 'y' }, { name: 'z' }] } } } },
+    });
+    expect(Object.keys((sorted.schemas.public as Record<string, object>).views)).toEqual([
+      'v1',
+      'v2',
+    ]);
+  });
+
+  it('keeps enum values and composite type attributes in order', () => {
+    const schema = {
+      schemas: {
+        public: {
+          enums: { status: ['pending', 'active', 'closed'], fields: ['z', 'a'] },
+          compositeTypes: {
+            required: [
+              { column: 'zip', type: 'text' },
+              { column: 'city', type: 'text' },
+            ],
+          },
+          tables: {
+            // Tables and columns named like the MongoDB lists
+            fields: { columns: [{ column: 'required' }, { column: 'fields' }] },
+          },
+        },
+      },
+    };
+
+    expect(sort(schema)).toEqual({
+      schemas: {
+        public: {
+          enums: { fields: ['z', 'a'], status: ['pending', 'active', 'closed'] },
+          compositeTypes: schema.schemas.public.compositeTypes,
+          tables: schema.schemas.public.tables,
+        },
+      },
+    });
+  });
+
+  it('sorts MongoDB collections and their field lists but not sample documents', () => {
+    const sampleData = { z: 1, a: { fields: ['y', 'x'], required: ['b', 'a'] }, tags: ['b', 'a'] };
+    const sorted = sort({
+      databases: {
+        shop: {
+          collections: [
+            {
+              collection: 'orders',
+              fields: ['total', '_id'],
+              types: { total: ['double'], _id: ['objectId'] },
+              presence: { total: 1, _id: 1 },
+              required: ['total', '_id'],
+              references: [{ field: 'userId' }, { field: 'couponId' }],
+              indexes: [{ name: 'total_1' }, { name: '_id_' }],
+              validator: { $jsonSchema: { required: ['total', '_id'] } },
+              sampleData,
+            },
+            { collection: 'customers', fields: [], types: {} },
+          ],
+        },
+        app: { collections: [] },
+      },
+    }) as { databases: Record<string, { collections: Array<Record<string, unknown>> }> };
+
+    expect(Object.keys(sorted.databases)).toEqual(['app', 'shop']);
+
+    const [customers, orders] = sorted.databases.shop.collections;
+    expect(customers.collection).toBe('customers');
+    expect(orders.fields).toEqual(['_id', 'total']);
+    expect(Object.keys(orders.types as object)).toEqual(['_id', 'total']);
+    expect(Object.keys(orders.presence as object)).toEqual(['_id', 'total']);
+    expect(orders.required).toEqual(['_id', 'total']);
+    expect(orders.references).toEqual([{ field: 'couponId' }, { field: 'userId' }]);
+    expect(orders.indexes).toEqual([{ name: '_id_' }, { name: 'total_1' }]);
+    expect(orders.validator).toEqual({ $jsonSchema: { required: ['total', '_id'] } });
+    expect(orders.sampleData).toEqual(sampleData);
+    expect(Object.keys(orders.sampleData as object)).toEqual(['z', 'a', 'tags']);
+  });
+
+  it('produces the same output whatever order objects were returned in', () => {
+    const a = { schemas: { b: { tables: { t2: {}, t1: {} } }, a: { tables: {} } } };
+    const b = { schemas: { a: { tables: {} }, b: { tables: { t1: {}, t2: {} } } } };
+
+    expect(sortSchemaOutput(JSON.stringify(a))).toBe(sortSchemaOutput(JSON.stringify(b)));
+  });
+});
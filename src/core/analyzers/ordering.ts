@@ -0,0 +1,95 @@
+// Paths of objects keyed by object name, whose entries are sorted by that name. `*` matches any
+// key and `[]` any list element; only these structural positions are sorted, so user data such
+// as enum values, composite type attributes or MongoDB sample documents keeps its order.
+const NAMED_MAPS = [
+  'schemas',
+  'schemas.*.tables',
+  'schemas.*.views',
+  'schemas.*.functions',
+  'schemas.*.enums',
+  'schemas.*.domains',
+  'schemas.*.compositeTypes',
+  'schemas.*.sequences',
+  'schemas.*.synonyms',
+  'databases',
+  // MongoDB field types and presence, keyed by field path
+  'databases.*.collections[].types',
+  'databases.*.collections[].presence',
+].map(parsePath);
+
+// Paths of lists whose order carries no meaning, with the property each entry is sorted by.
+// Columns, enum values and key columns are left alone because their order is meaningful.
+const UNORDERED_LISTS: Array<[string[], string | null]> = (
+  [
+    ['schemas.*.tables.*.indexes', 'name'],
+    ['schemas.*.tables.*.constraints', 'name'],
+    ['schemas.*.tables.*.foreignKeys', 'name'],
+    ['schemas.*.tables.*.triggers', 'name'],
+    ['schemas.*.views.*.indexes', 'name'],
+    ['schemas.*.views.*.triggers', 'name'],
+    ['databases.*.collections', 'collection'],
+    ['databases.*.collections[].indexes', 'name'],
+    ['databases.*.collections[].references', 'field'],
+    // Lists of plain strings
+    ['databases.*.collections[].fields', null],
+    ['databases.*.collections[].required', null],
+    ['databases.*.collections[].undeclaredFields', null],
+  ] as Array<[string, string | null]>
+).map(([path, property]) => [parsePath(path), property]);
+
+/**
+ * Sort analyzer output so the same schema always serializes the same way, whatever order the
+ * database returned objects in. Works on the output of every analyzer.
+ */
+export function sortSchemaOutput(schema: string): string {
+  return JSON.stringify(sortValue(JSON.parse(schema), []), null, 0);
+}
+
+function sortValue(value: unknown, path: string[]): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => sortValue(item, [...path, '[]']));
+    const list = UNORDERED_LISTS.find(([pattern]) => matchesPath(pattern, path));
+    return list ? items.sort((a, b) => compare(sortKey(a, list[1]), sortKey(b, list[1]))) : items;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const entries = Object.entries(value).map(
+    ([key, entryValue]) => [key, sortValue(entryValue, [...path, key])] as const
+  );
+  if (NAMED_MAPS.some((pattern) => matchesPath(pattern, path))) {
+    entries.sort(([a], [b]) => compare(a, b));
+  }
+
+  return Object.fromEntries(entries);
+}
+
+// `databases.*.collections[].types` becomes `databases`, `*`, `collections`, `[]`, `types`
+function parsePath(path: string): string[] {
+  return path.split(/\.|(?=\[\])/);
+}
+
+function matchesPath(pattern: string[], path: string[]): boolean {
+  return (
+    pattern.length === path.length &&
+    pattern.every(
+      (segment, index) => segment === path[index] || (segment === '*' && path[index] !== '[]')
+    )
+  );
+}
+
+function sortKey(item: unknown, property: string | null): string {
+  if (property && item !== null && typeof item === 'object') {
+    const name = (item as Record<string, unknown>)[property];
+    return typeof name === 'string' ? name : JSON.stringify(item);
+  }
+
+  return typeof item === 'string' ? item : JSON.stringify(item);
+}
+
+// Locale-independent, so output does not depend on the machine it was generated on
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -1,6 +1,13 @@
 import { Client, type PostgresClient } from '../../utils/pg-client';
-import type { SchemaStats, ConnectionConfig } from '../types';
+import type {
+  SchemaStats,
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  TableConstraint,
+  AnalyzerOptions,
+} from '../types';
 import { buildSSLConfig } from '../../utils/ssl';
+import { calculateRelationalStats } from './stats';
 import chalk from 'chalk';
 
 export interface PostgresTable {
@@ -15,15 +22,66 @@ export interface PostgresTable {
     name: string;
     definition: string;
   }>;
+  foreignKeys?: ForeignKeyDefinition[];
+  constraints?: TableConstraint[];
+  triggers?: PostgresTrigger[];
   description?: string | null;
 }
 
+export interface PostgresTrigger {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: string[];
+  level: 'ROW' | 'STATEMENT';
+  function: string;
+  enabled: boolean;
+  definition: string;
+}
+
+export interface PostgresRoutine {
+  kind: 'function' | 'procedure';
+  name: string;
+  arguments: string;
+  returns: string | null;
+  language: string;
+  volatility: 'IMMUTABLE' | 'STABLE' | 'VOLATILE';
+  body?: string;
+  description?: string | null;
+}
+
+export interface PostgresView {
+  kind: 'view' | 'materialized';
+  columns?: Array<{
+    column: string;
+    type: string;
+    nullable: string;
+  }>;
+  definition: string;
+  indexes?: Array<{
+    name: string;
+    definition: string;
+  }>;
+  triggers?: PostgresTrigger[];
+  description?: string | null;
+}
+
+export interface PostgresDomain {
+  type: string;
+  nullable: string;
+  default: string | null;
+  constraints: string[] | null;
+}
+
 export interface PostgresSchema {
   schemas?: Record<
     string,
     {
       tables?: Record<string, PostgresTable>;
+      views?: Record<string, PostgresView>;
+      functions?: Record<string, PostgresRoutine>;
       enums?: Record<string, string[]>;
+      domains?: Record<string, PostgresDomain>;
+      compositeTypes?: Record<string, Array<{ column: string; type: string }>>;
     }
   >;
 }
@@ -31,9 +89,11 @@ export interface PostgresSchema {
 export class PostgresAnalyzer {
   private client: PostgresClient;
   private connectionConfig: ConnectionConfig;
+  private options: AnalyzerOptions;
 
-  constructor(connectionConfig: ConnectionConfig, timeout: number) {
+  constructor(connectionConfig: ConnectionConfig, timeout: number, options: AnalyzerOptions = {}) {
     this.connectionConfig = connectionConfig;
+    this.options = options;
 
     this.client = new Client({
       connectionString: connectionConfig.url,
@@ -164,6 +224,8 @@ export class PostgresAnalyzer {
   private async extractSchema(): Promise<PostgresSchema> {
     const schemasToExtract = this.connectionConfig.schemas || ['public'];
     const schemaList = schemasToExtract.map((s: string) => `'${s}'`).join(',');
+    // Bodies are often the bulk of the output, so they can be left out to save tokens
+    const bodyField = this.options.includeFunctionBodies === false ? '' : `'body', p.prosrc,`;
 
     const query = `
       WITH table_info AS (
@@ -173,17 +235,15 @@ export class PostgresAnalyzer {
           json_agg(
             json_build_object(
               'column', c.column_name,
-              'type', c.data_type,
+              'type', format_type(att.atttypid, att.atttypmod),
               'nullable', c.is_nullable,
               'default', c.column_default,
               'constraints', (
-                SELECT json_agg(DISTINCT tc.constraint_type)
-                FROM information_schema.table_constraints tc
-                JOIN information_schema.constraint_column_usage ccu 
-                  ON tc.constraint_name = ccu.constraint_name
-                WHERE ccu.column_name = c.column_name 
-                  AND ccu.table_name = c.table_name
-                  AND ccu.table_schema = c.table_schema
+                SELECT json_agg(DISTINCT ${constraintType('con.contype')})
+                FROM pg_constraint con
+                WHERE con.conrelid = pgc.oid AND att.attnum = ANY(con.conkey)
+                  -- Constraint triggers ('t') and NOT NULL constraints ('n') have no type name
+                  AND con.contype IN ('p', 'u', 'f', 'c', 'x')
               )
             ) ORDER BY c.ordinal_position
           ) as columns,
@@ -191,7 +251,9 @@ export class PostgresAnalyzer {
         FROM information_schema.columns c
         JOIN pg_class pgc ON pgc.relname = c.table_name
         JOIN pg_namespace pgn ON pgn.oid = pgc.relnamespace AND pgn.nspname = c.table_schema
+        JOIN pg_attribute att ON att.attrelid = pgc.oid AND att.attname = c.column_name
         WHERE c.table_schema IN (${schemaList})
+          AND pgc.relkind IN ('r', 'p', 'f')
         GROUP BY c.table_schema, c.table_name, pgc.oid
       ),
       index_info AS (
@@ -202,12 +264,154 @@ export class PostgresAnalyzer {
             json_build_object(
               'name', indexname,
               'definition', indexdef
-            )
+            ) ORDER BY indexname
           ) as indexes
         FROM pg_indexes
         WHERE schemaname IN (${schemaList})
         GROUP BY schemaname, tablename
       ),
+      constraint_info AS (
+        SELECT
+          n.nspname as table_schema,
+          cl.relname as table_name,
+          json_agg(
+            json_build_object(
+              'name', con.conname,
+              'type', ${constraintType('con.contype')},
+              'columns', COALESCE((
+                SELECT json_agg(a.attname ORDER BY k.ord)
+                FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ), '[]'::json),
+              'definition', pg_get_constraintdef(con.oid, true)
+            ) ORDER BY con.conname
+          ) as constraints
+        FROM pg_constraint con
+        JOIN pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        WHERE con.contype IN ('p', 'u', 'c', 'x') AND n.nspname IN (${schemaList})
+        GROUP BY n.nspname, cl.relname
+      ),
+      fk_info AS (
+        SELECT
+          n.nspname as table_schema,
+          cl.relname as table_name,
+          json_agg(
+            json_build_object(
+              'name', con.conname,
+              'columns', (
+                SELECT json_agg(a.attname ORDER BY k.ord)
+                FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ),
+              'referencedSchema', rn.nspname,
+              'referencedTable', rcl.relname,
+              'referencedColumns', (
+                SELECT json_agg(a.attname ORDER BY k.ord)
+                FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+              ),
+              'onDelete', ${referentialAction('con.confdeltype')},
+              'onUpdate', ${referentialAction('con.confupdtype')}
+            ) ORDER BY con.conname
+          ) as foreign_keys
+        FROM pg_constraint con
+        JOIN pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        JOIN pg_class rcl ON rcl.oid = con.confrelid
+        JOIN pg_namespace rn ON rn.oid = rcl.relnamespace
+        WHERE con.contype = 'f' AND n.nspname IN (${schemaList})
+        GROUP BY n.nspname, cl.relname
+      ),
+      trigger_info AS (
+        SELECT
+          n.nspname as table_schema,
+          c.relname as table_name,
+          json_agg(
+            json_build_object(
+              'name', t.tgname,
+              'timing', CASE
+                WHEN t.tgtype & 2 = 2 THEN 'BEFORE'
+                WHEN t.tgtype & 64 = 64 THEN 'INSTEAD OF'
+                ELSE 'AFTER'
+              END,
+              'events', array_to_json(array_remove(ARRAY[
+                CASE WHEN t.tgtype & 4 = 4 THEN 'INSERT' END,
+                CASE WHEN t.tgtype & 16 = 16 THEN 'UPDATE' END,
+                CASE WHEN t.tgtype & 8 = 8 THEN 'DELETE' END,
+                CASE WHEN t.tgtype & 32 = 32 THEN 'TRUNCATE' END
+              ], NULL)),
+              'level', CASE WHEN t.tgtype & 1 = 1 THEN 'ROW' ELSE 'STATEMENT' END,
+              'function', fn.nspname || '.' || p.proname,
+              'enabled', t.tgenabled <> 'D',
+              'definition', pg_get_triggerdef(t.oid, true)
+            ) ORDER BY t.tgname
+          ) as triggers
+        FROM pg_trigger t
+        JOIN pg_class c ON c.oid = t.tgrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        JOIN pg_proc p ON p.oid = t.tgfoid
+        JOIN pg_namespace fn ON fn.oid = p.pronamespace
+        WHERE NOT t.tgisinternal AND n.nspname IN (${schemaList})
+        GROUP BY n.nspname, c.relname
+      ),
+      -- pg_proc.prokind, which tells procedures from functions, needs PostgreSQL 11 or later
+      routine_info AS (
+        SELECT
+          n.nspname as routine_schema,
+          p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' as signature,
+          json_build_object(
+            'kind', CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END,
+            'name', p.proname,
+            'arguments', pg_get_function_arguments(p.oid),
+            'returns', CASE WHEN p.prokind = 'p' THEN NULL ELSE pg_get_function_result(p.oid) END,
+            'language', l.lanname,
+            'volatility', CASE p.provolatile
+              WHEN 'i' THEN 'IMMUTABLE'
+              WHEN 's' THEN 'STABLE'
+              ELSE 'VOLATILE'
+            END,
+            ${bodyField}
+            'description', obj_description(p.oid, 'pg_proc')
+          ) as routine
+        FROM pg_proc p
+        JOIN pg_namespace n ON n.oid = p.pronamespace
+        JOIN pg_language l ON l.oid = p.prolang
+        WHERE p.prokind IN ('f', 'p') AND n.nspname IN (${schemaList})
+          -- Skip functions installed by extensions such as pgcrypto or postgis
+          AND NOT EXISTS (
+            SELECT 1 FROM pg_depend d
+            WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+          )
+      ),
+      view_info AS (
+        SELECT
+          n.nspname as view_schema,
+          v.relname as view_name,
+          json_build_object(
+            'kind', CASE v.relkind WHEN 'm' THEN 'materialized' ELSE 'view' END,
+            'columns', (
+              SELECT json_agg(
+                json_build_object(
+                  'column', a.attname,
+                  'type', format_type(a.atttypid, a.atttypmod),
+                  'nullable', CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END
+                ) ORDER BY a.attnum
+              )
+              FROM pg_attribute a
+              WHERE a.attrelid = v.oid AND a.attnum > 0 AND NOT a.attisdropped
+            ),
+            'definition', pg_get_viewdef(v.oid, true),
+            'description', obj_description(v.oid, 'pg_class'),
+            'indexes', CASE WHEN v.relkind = 'm' THEN COALESCE(i.indexes, '[]'::json) END,
+            'triggers', COALESCE(tr.triggers, '[]'::json)
+          ) as view_data
+        FROM pg_class v
+        JOIN pg_namespace n ON n.oid = v.relnamespace
+        LEFT JOIN index_info i ON i.table_schema = n.nspname AND i.table_name = v.relname
+        LEFT JOIN trigger_info tr ON tr.table_schema = n.nspname AND tr.table_name = v.relname
+        WHERE v.relkind IN ('v', 'm') AND n.nspname IN (${schemaList})
+      ),
       enum_info AS (
         SELECT 
           n.nspname as schema_name,
@@ -218,6 +422,42 @@ export class PostgresAnalyzer {
         JOIN pg_namespace n ON t.typnamespace = n.oid
         WHERE n.nspname IN (${schemaList})
         GROUP BY n.nspname, t.typname
+      ),
+      domain_info AS (
+        SELECT
+          n.nspname as schema_name,
+          t.typname as domain_name,
+          json_build_object(
+            'type', format_type(t.typbasetype, t.typtypmod),
+            'nullable', CASE WHEN t.typnotnull THEN 'NO' ELSE 'YES' END,
+            'default', t.typdefault,
+            'constraints', (
+              SELECT json_agg(pg_get_constraintdef(con.oid, true) ORDER BY con.conname)
+              FROM pg_constraint con
+              WHERE con.contypid = t.oid
+            )
+          ) as domain_data
+        FROM pg_type t
+        JOIN pg_namespace n ON t.typnamespace = n.oid
+        WHERE t.typtype = 'd' AND n.nspname IN (${schemaList})
+      ),
+      composite_info AS (
+        SELECT
+          n.nspname as schema_name,
+          t.typname as type_name,
+          json_agg(
+            json_build_object(
+              'column', a.attname,
+              'type', format_type(a.atttypid, a.atttypmod)
+            ) ORDER BY a.attnum
+          ) as attributes
+        FROM pg_type t
+        JOIN pg_namespace n ON t.typnamespace = n.oid
+        -- Every table has a row type too; standalone composite types have relkind 'c'
+        JOIN pg_class cl ON cl.oid = t.typrelid AND cl.relkind = 'c'
+        JOIN pg_attribute a ON a.attrelid = cl.oid AND a.attnum > 0 AND NOT a.attisdropped
+        WHERE t.typtype = 'c' AND n.nspname IN (${schemaList})
+        GROUP BY n.nspname, t.typname
       )
       SELECT json_build_object(
         'schemas', (
@@ -225,27 +465,74 @@ export class PostgresAnalyzer {
             schema_name,
             json_build_object(
               'tables', schema_tables,
-              'enums', schema_enums
+              'views', schema_views,
+              'functions', schema_functions,
+              'enums', schema_enums,
+              'domains', schema_domains,
+              'compositeTypes', schema_composites
             )
+            ORDER BY schema_name
           )
           FROM (
-            SELECT 
-              t.table_schema as schema_name,
-              json_object_agg(t.table_name, 
-                json_build_object(
-                  'columns', t.columns,
-                  'description', t.description,
-                  'indexes', COALESCE(i.indexes, '[]'::json)
+            SELECT
+              s.schema_name,
+              (
+                SELECT json_object_agg(t.table_name,
+                  json_build_object(
+                    'columns', t.columns,
+                    'description', t.description,
+                    'indexes', COALESCE(i.indexes, '[]'::json),
+                    'foreignKeys', COALESCE(f.foreign_keys, '[]'::json),
+                    'constraints', COALESCE(con.constraints, '[]'::json),
+                    'triggers', COALESCE(tr.triggers, '[]'::json)
+                  )
+                  ORDER BY t.table_name
                 )
+                FROM table_info t
+                LEFT JOIN index_info i ON t.table_name = i.table_name AND t.table_schema = i.table_schema
+                LEFT JOIN fk_info f ON t.table_name = f.table_name AND t.table_schema = f.table_schema
+                LEFT JOIN constraint_info con ON t.table_name = con.table_name AND t.table_schema = con.table_schema
+                LEFT JOIN trigger_info tr ON t.table_name = tr.table_name AND t.table_schema = tr.table_schema
+                WHERE t.table_schema = s.schema_name
               ) as schema_tables,
               (
-                SELECT json_object_agg(enum_name, enum_values) 
-                FROM enum_info e 
-                WHERE e.schema_name = t.table_schema
-              ) as schema_enums
-            FROM table_info t
-            LEFT JOIN index_info i ON t.table_name = i.table_name AND t.table_schema = i.table_schema
-            GROUP BY t.table_schema
+                SELECT json_object_agg(v.view_name, v.view_data ORDER BY v.view_name)
+                FROM view_info v
+                WHERE v.view_schema = s.schema_name
+              ) as schema_views,
+              (
+                SELECT json_object_agg(r.signature, r.routine ORDER BY r.signature)
+                FROM routine_info r
+                WHERE r.routine_schema = s.schema_name
+              ) as schema_functions,
+              (
+                SELECT json_object_agg(enum_name, enum_values ORDER BY enum_name)
+                FROM enum_info e
+                WHERE e.schema_name = s.schema_name
+              ) as schema_enums,
+              (
+                SELECT json_object_agg(d.domain_name, d.domain_data ORDER BY d.domain_name)
+                FROM domain_info d
+                WHERE d.schema_name = s.schema_name
+              ) as schema_domains,
+              (
+                SELECT json_object_agg(ct.type_name, ct.attributes ORDER BY ct.type_name)
+                FROM composite_info ct
+                WHERE ct.schema_name = s.schema_name
+              ) as schema_composites
+            FROM (
+              SELECT table_schema as schema_name FROM table_info
+              UNION
+              SELECT view_schema FROM view_info
+              UNION
+              SELECT routine_schema FROM routine_info
+              UNION
+              SELECT schema_name FROM enum_info
+              UNION
+              SELECT schema_name FROM domain_info
+              UNION
+              SELECT schema_name FROM composite_info
+            ) s
           ) schemas_data
         )
       ) as schema;
@@ -256,40 +543,28 @@ export class PostgresAnalyzer {
   }
 
   private calculateStats(schema: PostgresSchema): SchemaStats {
-    let totalTables = 0;
-    let totalColumns = 0;
-    let totalIndexes = 0;
-    let totalEnums = 0;
-
-    if (schema.schemas) {
-      Object.values(schema.schemas).forEach((schemaData) => {
-        if (schemaData.tables) {
-          const tables = Object.keys(schemaData.tables);
-          totalTables += tables.length;
-
-          tables.forEach((tableName) => {
-            const table = schemaData.tables![tableName];
-            totalColumns += table.columns?.length || 0;
-            totalIndexes += table.indexes?.length || 0;
-          });
-        }
+    return calculateRelationalStats(schema, this.connectionConfig.schemas || ['public']);
+  }
+}
 
-        if (schemaData.enums) {
-          totalEnums += Object.keys(schemaData.enums).length;
-        }
-      });
-    }
+// pg_constraint stores constraint types as single-letter codes
+function constraintType(column: string): string {
+  return `CASE ${column}
+    WHEN 'p' THEN 'PRIMARY KEY'
+    WHEN 'u' THEN 'UNIQUE'
+    WHEN 'f' THEN 'FOREIGN KEY'
+    WHEN 'c' THEN 'CHECK'
+    WHEN 'x' THEN 'EXCLUDE'
+  END`;
+}
 
-    return {
-      totalSize: JSON.stringify(schema).length,
-      objectCount: totalTables,
-      schemas: this.connectionConfig.schemas || ['public'],
-      details: {
-        tables: totalTables,
-        columns: totalColumns,
-        indexes: totalIndexes,
-        enums: totalEnums,
-      },
-    };
-  }
+// pg_constraint stores referential actions as single-letter codes
+function referentialAction(column: string): string {
+  return `CASE ${column}
+    WHEN 'a' THEN 'NO ACTION'
+    WHEN 'r' THEN 'RESTRICT'
+    WHEN 'c' THEN 'CASCADE'
+    WHEN 'n' THEN 'SET NULL'
+    WHEN 'd' THEN 'SET DEFAULT'
+  END`;
 }
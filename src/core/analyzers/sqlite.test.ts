@@ -0,0 +1,129 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SQLiteAnalyzer, type SQLiteSchema } from './sqlite';
+import type { ConnectionConfig } from '../types';
+
+describe('SQLiteAnalyzer', () => {
+  let directory: string;
+  let filePath: string;
+
+  const connection = (url: string): ConnectionConfig => ({
+    url,
+    sslMode: 'disable',
+    created: '2024-01-01T00:00:00.000Z',
+    tag: 'test',
+  });
+
+  const analyze = async (): Promise<SQLiteSchema> => {
+    const { schema } = await new SQLiteAnalyzer(connection(`sqlite://${filePath}`), 5000).analyze();
+    return JSON.parse(schema) as SQLiteSchema;
+  };
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'schiba-sqlite-'));
+    filePath = join(directory, 'app.db');
+
+    const db = new Database(filePath);
+    db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name VARCHAR(100),
+        active BOOLEAN DEFAULT 1
+      );
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        author_id INTEGER NOT NULL REFERENCES users ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        published_at DATETIME
+      );
+      CREATE INDEX posts_author_idx ON posts (author_id, published_at);
+      CREATE TABLE tags (
+        post_id INTEGER,
+        label TEXT,
+        PRIMARY KEY (post_id, label),
+        FOREIGN KEY (post_id) REFERENCES posts (id)
+      );
+    `);
+    db.close();
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('extracts columns with their types, nullability and defaults', async () => {
+    const users = (await analyze()).schemas?.main.tables?.users;
+
+    expect(users?.columns).toEqual([
+      {
+        column: 'id',
+        type: 'INTEGER',
+        nullable: 'NO',
+        default: null,
+        constraints: ['PRIMARY KEY'],
+      },
+      { column: 'email', type: 'TEXT', nullable: 'NO', default: null, constraints: ['UNIQUE'] },
+      { column: 'name', type: 'VARCHAR(100)', nullable: 'YES', default: null, constraints: null },
+      { column: 'active', type: 'BOOLEAN', nullable: 'YES', default: '1', constraints: null },
+    ]);
+  });
+
+  it('marks every column of a composite primary key', async () => {
+    const tags = (await analyze()).schemas?.main.tables?.tags;
+
+    expect(tags?.columns?.map((col) => [col.column, col.nullable, col.constraints])).toEqual([
+      ['post_id', 'NO', ['PRIMARY KEY', 'FOREIGN KEY']],
+      ['label', 'NO', ['PRIMARY KEY']],
+    ]);
+  });
+
+  it('resolves foreign keys without explicit columns to the parent primary key', async () => {
+    const posts = (await analyze()).schemas?.main.tables?.posts;
+
+    expect(posts?.foreignKeys).toEqual([
+      {
+        name: 'posts_author_id_fkey',
+        columns: ['author_id'],
+        referencedSchema: 'main',
+        referencedTable: 'users',
+        referencedColumns: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'NO ACTION',
+      },
+    ]);
+  });
+
+  it('keeps the CREATE statement of explicit indexes and describes automatic ones', async () => {
+    const tables = (await analyze()).schemas?.main.tables;
+
+    expect(tables?.posts.indexes).toEqual([
+      {
+        name: 'posts_author_idx',
+        definition: 'CREATE INDEX posts_author_idx ON posts (author_id, published_at)',
+      },
+    ]);
+    expect(tables?.users.indexes).toEqual([
+      {
+        name: 'sqlite_autoindex_users_1',
+        definition: 'CREATE UNIQUE INDEX sqlite_autoindex_users_1 ON users (email)',
+      },
+    ]);
+  });
+
+  it('counts tables, columns, indexes and relations', async () => {
+    const { stats } = await new SQLiteAnalyzer(connection(`sqlite://${filePath}`), 5000).analyze();
+
+    expect(stats.details).toMatchObject({ tables: 3, columns: 10, indexes: 3, relations: 2 });
+  });
+
+  it('reports a missing file', async () => {
+    const missing = join(directory, 'missing.db');
+
+    await expect(
+      new SQLiteAnalyzer(connection(`sqlite://${missing}`), 5000).analyze()
+    ).rejects.toThrow('Could not open SQLite database');
+  });
+});
@@ -0,0 +1,298 @@
+import { existsSync } from 'fs';
+import { Database, type SQLiteClient } from '../../utils/sqlite-client';
+import { getSQLiteFilePath } from '../../utils/helpers';
+import type { SchemaStats, ConnectionConfig, ForeignKeyDefinition } from '../types';
+import { calculateRelationalStats } from './stats';
+import chalk from 'chalk';
+
+export interface SQLiteTable {
+  columns?: Array<{
+    column: string;
+    type: string;
+    nullable: string;
+    default: string | null;
+    constraints: string[] | null;
+  }>;
+  indexes?: Array<{
+    name: string;
+    definition: string;
+  }>;
+  foreignKeys?: ForeignKeyDefinition[];
+  description?: string | null;
+}
+
+export interface SQLiteSchema {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<string, SQLiteTable>;
+      enums?: Record<string, string[]>;
+    }
+  >;
+}
+
+interface MasterRow {
+  name: string;
+  sql: string | null;
+}
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface IndexListRow {
+  seq: number;
+  name: string;
+  unique: number;
+  origin: 'c' | 'u' | 'pk';
+  partial: number;
+}
+
+interface IndexInfoRow {
+  seqno: number;
+  cid: number;
+  name: string | null;
+}
+
+interface ForeignKeyListRow {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+// SQLite has no schemas; everything in the opened file lives in "main"
+const MAIN_SCHEMA = 'main';
+
+export class SQLiteAnalyzer {
+  private connectionConfig: ConnectionConfig;
+  private timeout: number;
+  private client: SQLiteClient | null = null;
+
+  constructor(connectionConfig: ConnectionConfig, timeout: number) {
+    this.connectionConfig = connectionConfig;
+    this.timeout = timeout;
+  }
+
+  public async analyze(): Promise<{ schema: string; stats: SchemaStats }> {
+    try {
+      const filePath = getSQLiteFilePath(this.connectionConfig.url);
+      if (!existsSync(filePath)) {
+        throw new Error(`SQLITE_CANTOPEN: ${filePath}`);
+      }
+
+      this.client = new Database(filePath, {
+        readonly: true,
+        fileMustExist: true,
+        timeout: this.timeout,
+      });
+      const result = this.extractSchema(this.client);
+      const stats = this.calculateStats(result);
+
+      return {
+        schema: JSON.stringify(result, null, 0),
+        stats,
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    } finally {
+      this.client?.close();
+      this.client = null;
+    }
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (message.includes('SQLITE_CANTOPEN') || errorCode === 'SQLITE_CANTOPEN') {
+      return new Error(
+        `Could not open SQLite database ${chalk.cyan(getSQLiteFilePath(this.connectionConfig.url))}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The file exists and the path is correct.\n` +
+          `  2. Absolute paths use three slashes, e.g. ${chalk.cyan('sqlite:///path/to/app.db')}.\n` +
+          `  3. You have permission to read the file.\n\n` +
+          `To see the configured path:\n` +
+          `  ${chalk.cyan('schiba list --details')}`
+      );
+    }
+
+    if (errorCode === 'SQLITE_NOTADB' || message.includes('file is not a database')) {
+      return new Error(
+        `The file ${chalk.cyan(getSQLiteFilePath(this.connectionConfig.url))} is not a SQLite database.`
+      );
+    }
+
+    if (errorCode === 'SQLITE_BUSY') {
+      return new Error(
+        `The database is locked by another process.\n\n` +
+          `Try increasing the timeout with --timeout option.`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+
+  private extractSchema(client: SQLiteClient): SQLiteSchema {
+    const tables: Record<string, SQLiteTable> = {};
+
+    const tableRows = client
+      .prepare(
+        `SELECT name, sql FROM sqlite_master
+         WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+         ORDER BY name`
+      )
+      .all() as MasterRow[];
+
+    tableRows.forEach(({ name }) => {
+      const columns = client
+        .prepare('SELECT * FROM pragma_table_info(?)')
+        .all(name) as TableInfoRow[];
+      const indexList = client
+        .prepare('SELECT * FROM pragma_index_list(?)')
+        .all(name) as IndexListRow[];
+      const foreignKeyList = client
+        .prepare('SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq')
+        .all(name) as ForeignKeyListRow[];
+
+      const indexes = indexList.map((index) => ({
+        row: index,
+        columns: (
+          client
+            .prepare('SELECT * FROM pragma_index_info(?) ORDER BY seqno')
+            .all(index.name) as IndexInfoRow[]
+        ).map((info) => info.name || '<expression>'),
+      }));
+
+      const foreignKeys = this.groupForeignKeys(client, name, foreignKeyList);
+      const constraints = this.collectColumnConstraints(columns, indexes, foreignKeys);
+
+      tables[name] = {
+        columns: columns.map((col) => ({
+          column: col.name,
+          type: col.type || 'ANY',
+          nullable: col.notnull || col.pk ? 'NO' : 'YES',
+          default: col.dflt_value,
+          constraints: constraints.get(col.name) || null,
+        })),
+        description: null,
+        indexes: indexes.map(({ row, columns: indexColumns }) => ({
+          name: row.name,
+          definition: this.getIndexDefinition(client, name, row, indexColumns),
+        })),
+        foreignKeys,
+      };
+    });
+
+    return {
+      schemas: {
+        [MAIN_SCHEMA]: { tables },
+      },
+    };
+  }
+
+  private getIndexDefinition(
+    client: SQLiteClient,
+    tableName: string,
+    index: IndexListRow,
+    columns: string[]
+  ): string {
+    // Explicit indexes keep their CREATE statement; auto-indexes have none
+    if (index.origin === 'c') {
+      const row = client
+        .prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`)
+        .get(index.name) as MasterRow | undefined;
+      if (row?.sql) {
+        return row.sql;
+      }
+    }
+
+    const unique = index.unique ? 'UNIQUE ' : '';
+    return `CREATE ${unique}INDEX ${index.name} ON ${tableName} (${columns.join(', ')})`;
+  }
+
+  private groupForeignKeys(
+    client: SQLiteClient,
+    tableName: string,
+    rows: ForeignKeyListRow[]
+  ): ForeignKeyDefinition[] {
+    const grouped = new Map<number, ForeignKeyDefinition>();
+
+    rows.forEach((row) => {
+      const foreignKey = grouped.get(row.id) || {
+        name: '',
+        columns: [],
+        referencedSchema: MAIN_SCHEMA,
+        referencedTable: row.table,
+        referencedColumns: [],
+        onDelete: row.on_delete,
+        onUpdate: row.on_update,
+      };
+      foreignKey.columns.push(row.from);
+      if (row.to) {
+        foreignKey.referencedColumns.push(row.to);
+      }
+      grouped.set(row.id, foreignKey);
+    });
+
+    grouped.forEach((foreignKey) => {
+      // SQLite does not expose constraint names, so follow the Postgres naming convention
+      foreignKey.name = `${tableName}_${foreignKey.columns.join('_')}_fkey`;
+
+      // A reference without explicit columns targets the parent's primary key
+      if (foreignKey.referencedColumns.length === 0) {
+        const parentColumns = client
+          .prepare('SELECT * FROM pragma_table_info(?)')
+          .all(foreignKey.referencedTable) as TableInfoRow[];
+        foreignKey.referencedColumns = parentColumns
+          .filter((col) => col.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map((col) => col.name);
+      }
+    });
+
+    return Array.from(grouped.values());
+  }
+
+  private collectColumnConstraints(
+    columns: TableInfoRow[],
+    indexes: Array<{ row: IndexListRow; columns: string[] }>,
+    foreignKeys: ForeignKeyDefinition[]
+  ): Map<string, string[]> {
+    const constraints = new Map<string, string[]>();
+    const addConstraint = (column: string, type: string): void => {
+      const existing = constraints.get(column) || [];
+      if (!existing.includes(type)) {
+        existing.push(type);
+      }
+      constraints.set(column, existing);
+    };
+
+    columns.filter((col) => col.pk > 0).forEach((col) => addConstraint(col.name, 'PRIMARY KEY'));
+
+    indexes
+      .filter(({ row }) => row.unique && row.origin === 'u')
+      .forEach(({ columns: indexColumns }) =>
+        indexColumns.forEach((column) => addConstraint(column, 'UNIQUE'))
+      );
+
+    foreignKeys.forEach((foreignKey) =>
+      foreignKey.columns.forEach((column) => addConstraint(column, 'FOREIGN KEY'))
+    );
+
+    return constraints;
+  }
+
+  private calculateStats(schema: SQLiteSchema): SchemaStats {
+    return calculateRelationalStats(schema, [MAIN_SCHEMA]);
+  }
+}
@@ -0,0 +1,78 @@
+import type { SchemaStats } from '../types';
+
+interface RelationalSchemaShape {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<
+        string,
+        { columns?: unknown[]; indexes?: unknown[]; foreignKeys?: unknown[]; triggers?: unknown[] }
+      >;
+      views?: Record<string, unknown>;
+      functions?: Record<string, unknown>;
+      enums?: Record<string, string[]>;
+    }
+  >;
+}
+
+/**
+ * Calculate stats for analyzers that produce the `{ schemas: { <name>: { tables, enums } } }`
+ * structure shared by the relational databases.
+ */
+export function calculateRelationalStats(
+  schema: RelationalSchemaShape,
+  schemaNames: string[]
+): SchemaStats {
+  let totalTables = 0;
+  let totalColumns = 0;
+  let totalIndexes = 0;
+  let totalViews = 0;
+  let totalEnums = 0;
+  let totalRelations = 0;
+  let totalFunctions = 0;
+  let totalTriggers = 0;
+
+  if (schema.schemas) {
+    Object.values(schema.schemas).forEach((schemaData) => {
+      if (schemaData.tables) {
+        const tables = Object.values(schemaData.tables);
+        totalTables += tables.length;
+
+        tables.forEach((table) => {
+          totalColumns += table.columns?.length || 0;
+          totalIndexes += table.indexes?.length || 0;
+          totalRelations += table.foreignKeys?.length || 0;
+          totalTriggers += table.triggers?.length || 0;
+        });
+      }
+
+      if (schemaData.views) {
+        totalViews += Object.keys(schemaData.views).length;
+      }
+
+      if (schemaData.functions) {
+        totalFunctions += Object.keys(schemaData.functions).length;
+      }
+
+      if (schemaData.enums) {
+        totalEnums += Object.keys(schemaData.enums).length;
+      }
+    });
+  }
+
+  return {
+    totalSize: JSON.stringify(schema).length,
+    objectCount: totalTables,
+    schemas: schemaNames,
+    details: {
+      tables: totalTables,
+      columns: totalColumns,
+      indexes: totalIndexes,
+      views: totalViews,
+      enums: totalEnums,
+      relations: totalRelations,
+      functions: totalFunctions,
+      triggers: totalTriggers,
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { changeCategory, diffSchemas } from './compare';
+import type { NormalizedSnapshot, NormalizedTable } from './normalize';
+
+const labels = { source: 'before', target: 'after' };
+
+function table(
+  columns: NormalizedTable['columns'],
+  indexes: NormalizedTable['indexes'] = {}
+): NormalizedTable {
+  return { columns, indexes };
+}
+
+const id = { type: 'integer', nullable: false, default: null };
+
+describe('diffSchemas', () => {
+  it('reports no changes for identical snapshots', () => {
+    const snapshot: NormalizedSnapshot = {
+      public: { tables: { users: table({ id }) }, enums: { role: ['admin', 'user'] } },
+    };
+
+    expect(diffSchemas(snapshot, snapshot, labels)).toEqual({ ...labels, changes: [] });
+  });
+
+  it('reports added and removed tables, including whole schemas', () => {
+    const { changes } = diffSchemas(
+      { public: { tables: { legacy: table({ id }) }, enums: {} } },
+      {
+        public: { tables: { users: table({ id }) }, enums: {} },
+        audit: { tables: { events: table({ id }) }, enums: {} },
+      },
+      labels
+    );
+
+    expect(changes).toEqual([
+      { kind: 'added', object: 'table', name: 'audit.events' },
+      { kind: 'removed', object: 'table', name: 'public.legacy' },
+      { kind: 'added', object: 'table', name: 'public.users' },
+    ]);
+  });
+
+  it('reports column type, nullability and default changes separately', () => {
+    const { changes } = diffSchemas(
+      {
+        public: {
+          tables: {
+            users: table({
+              id,
+              email: { type: 'varchar(100)', nullable: true, default: null },
+              legacy: { type: 'text', nullable: true, default: null },
+            }),
+          },
+          enums: {},
+        },
+      },
+      {
+        public: {
+          tables: {
+            users: table({
+              id,
+              email: { type: 'varchar(255)', nullable: false, default: "''::text" },
+              created_at: { type: 'timestamp', nullable: false, default: 'now()' },
+            }),
+          },
+          enums: {},
+        },
+      },
+      labels
+    );
+
+    expect(changes).toEqual([
+      {
+        kind: 'added',
+        object: 'column',
+        name: 'public.users.created_at',
+        after: 'timestamp',
+      },
+      {
+        kind: 'changed',
+        object: 'column',
+        name: 'public.users.email',
+        attribute: 'type',
+        before: 'varchar(100)',
+        after: 'varchar(255)',
+      },
+      {
+        kind: 'changed',
+        object: 'column',
+        name: 'public.users.email',
+        attribute: 'nullable',
+        before: 'NULL',
+        after: 'NOT NULL',
+      },
+      {
+        kind: 'changed',
+        object: 'column',
+        name: 'public.users.email',
+        attribute: 'default',
+        before: 'none',
+        after: "''::text",
+      },
+      { kind: 'removed', object: 'column', name: 'public.users.legacy', before: 'text' },
+    ]);
+    expect(changes.map(changeCategory)).toEqual([
+      'column',
+      'type',
+      'nullable',
+      'default',
+      'column',
+    ]);
+  });
+
+  it('reports index and enum changes', () => {
+    const { changes } = diffSchemas(
+      {
+        public: {
+          tables: {
+            users: table(
+              { id },
+              { users_a_idx: 'CREATE INDEX users_a_idx ON users (a)', users_b_idx: 'b' }
+            ),
+          },
+          enums: { role: ['admin', 'user'], status: ['on'] },
+        },
+      },
+      {
+        public: {
+          tables: {
+            users: table(
+              { id },
+              { users_a_idx: 'CREATE INDEX users_a_idx ON users (a, b)', users_c_idx: 'c' }
+            ),
+          },
+          enums: { role: ['user', 'admin'], mood: ['ok'] },
+        },
+      },
+      labels
+    );
+
+    expect(changes).toEqual([
+      {
+        kind: 'changed',
+        object: 'index',
+        name: 'public.users.users_a_idx',
+        before: 'CREATE INDEX users_a_idx ON users (a)',
+        after: 'CREATE INDEX users_a_idx ON users (a, b)',
+      },
+      { kind: 'removed', object: 'index', name: 'public.users.users_b_idx', before: 'b' },
+      { kind: 'added', object: 'index', name: 'public.users.users_c_idx', after: 'c' },
+      { kind: 'added', object: 'enum', name: 'public.mood', after: 'ok' },
+      {
+        kind: 'changed',
+        object: 'enum',
+        name: 'public.role',
+        before: 'admin, user',
+        after: 'user, admin',
+      },
+      { kind: 'removed', object: 'enum', name: 'public.status', before: 'on' },
+    ]);
+  });
+});
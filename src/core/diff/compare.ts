@@ -0,0 +1,177 @@
+import type { NormalizedSnapshot, NormalizedTable } from './normalize';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type ChangeObject = 'table' | 'column' | 'index' | 'enum';
+
+export type ColumnAttribute = 'type' | 'nullable' | 'default';
+
+export interface SchemaChange {
+  kind: ChangeKind;
+  object: ChangeObject;
+  // Dotted name of the object, e.g. `public.users.email`
+  name: string;
+  // Which column attribute changed, for changed columns
+  attribute?: ColumnAttribute;
+  before?: string;
+  after?: string;
+}
+
+// What a change is about, used to choose which changes matter, e.g. for `schiba check --fail-on`
+export type ChangeCategory = 'table' | 'column' | ColumnAttribute | 'index' | 'enum';
+
+export const CHANGE_CATEGORIES: ChangeCategory[] = [
+  'table',
+  'column',
+  'type',
+  'nullable',
+  'default',
+  'index',
+  'enum',
+];
+
+export function changeCategory(change: SchemaChange): ChangeCategory {
+  return change.attribute || change.object;
+}
+
+export interface SchemaDiff {
+  source: string;
+  target: string;
+  changes: SchemaChange[];
+}
+
+/**
+ * Compare two normalized snapshots. Changes are listed per object in a stable order: schemas and
+ * tables by name, then columns, indexes and enums within each.
+ */
+export function diffSchemas(
+  source: NormalizedSnapshot,
+  target: NormalizedSnapshot,
+  labels: { source: string; target: string }
+): SchemaDiff {
+  const changes: SchemaChange[] = [];
+
+  sortedKeys(source, target).forEach((schemaName) => {
+    const before = source[schemaName] || { tables: {}, enums: {} };
+    const after = target[schemaName] || { tables: {}, enums: {} };
+
+    sortedKeys(before.tables, after.tables).forEach((tableName) => {
+      const name = `${schemaName}.${tableName}`;
+      const beforeTable = before.tables[tableName];
+      const afterTable = after.tables[tableName];
+
+      if (!beforeTable) {
+        changes.push({ kind: 'added', object: 'table', name });
+      } else if (!afterTable) {
+        changes.push({ kind: 'removed', object: 'table', name });
+      } else {
+        changes.push(...diffTables(name, beforeTable, afterTable));
+      }
+    });
+
+    sortedKeys(before.enums, after.enums).forEach((enumName) => {
+      const name = `${schemaName}.${enumName}`;
+      const beforeValues = before.enums[enumName];
+      const afterValues = after.enums[enumName];
+
+      if (!beforeValues) {
+        changes.push({ kind: 'added', object: 'enum', name, after: afterValues.join(', ') });
+      } else if (!afterValues) {
+        changes.push({ kind: 'removed', object: 'enum', name, before: beforeValues.join(', ') });
+      } else if (beforeValues.join('\u0000') !== afterValues.join('\u0000')) {
+        changes.push({
+          kind: 'changed',
+          object: 'enum',
+          name,
+          before: beforeValues.join(', '),
+          after: afterValues.join(', '),
+        });
+      }
+    });
+  });
+
+  return { ...labels, changes };
+}
+
+function diffTables(
+  tableName: string,
+  before: NormalizedTable,
+  after: NormalizedTable
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  sortedKeys(before.columns, after.columns).forEach((columnName) => {
+    const name = `${tableName}.${columnName}`;
+    const beforeColumn = before.columns[columnName];
+    const afterColumn = after.columns[columnName];
+
+    if (!beforeColumn) {
+      changes.push({ kind: 'added', object: 'column', name, after: afterColumn.type });
+      return;
+    }
+
+    if (!afterColumn) {
+      changes.push({ kind: 'removed', object: 'column', name, before: beforeColumn.type });
+      return;
+    }
+
+    if (beforeColumn.type !== afterColumn.type) {
+      changes.push({
+        kind: 'changed',
+        object: 'column',
+        name,
+        attribute: 'type',
+        before: beforeColumn.type,
+        after: afterColumn.type,
+      });
+    }
+
+    if (beforeColumn.nullable !== afterColumn.nullable) {
+      changes.push({
+        kind: 'changed',
+        object: 'column',
+        name,
+        attribute: 'nullable',
+        before: beforeColumn.nullable ? 'NULL' : 'NOT NULL',
+        after: afterColumn.nullable ? 'NULL' : 'NOT NULL',
+      });
+    }
+
+    if (beforeColumn.default !== afterColumn.default) {
+      changes.push({
+        kind: 'changed',
+        object: 'column',
+        name,
+        attribute: 'default',
+        before: beforeColumn.default ?? 'none',
+        after: afterColumn.default ?? 'none',
+      });
+    }
+  });
+
+  sortedKeys(before.indexes, after.indexes).forEach((indexName) => {
+    const name = `${tableName}.${indexName}`;
+    const beforeIndex = before.indexes[indexName];
+    const afterIndex = after.indexes[indexName];
+
+    if (beforeIndex === undefined) {
+      changes.push({ kind: 'added', object: 'index', name, after: afterIndex });
+    } else if (afterIndex === undefined) {
+      changes.push({ kind: 'removed', object: 'index', name, before: beforeIndex });
+    } else if (beforeIndex !== afterIndex) {
+      changes.push({
+        kind: 'changed',
+        object: 'index',
+        name,
+        before: beforeIndex,
+        after: afterIndex,
+      });
+    }
+  });
+
+  return changes;
+}
+
+function sortedKeys(...records: Array<Record<string, unknown>>): string[] {
+  return Array.from(new Set(records.flatMap((record) => Object.keys(record)))).sort();
+}
@@ -0,0 +1,4 @@
+export * from './compare';
+export * from './normalize';
+export * from './render';
+export * from './snapshot';
@@ -0,0 +1,127 @@
+export interface NormalizedColumn {
+  type: string;
+  nullable: boolean;
+  default: string | null;
+}
+
+export interface NormalizedTable {
+  columns: Record<string, NormalizedColumn>;
+  // Index definitions keyed by index name
+  indexes: Record<string, string>;
+}
+
+export interface NormalizedSchema {
+  tables: Record<string, NormalizedTable>;
+  enums: Record<string, string[]>;
+}
+
+// Schemas (or MongoDB databases) keyed by name
+export type NormalizedSnapshot = Record<string, NormalizedSchema>;
+
+interface RelationalInput {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<
+        string,
+        {
+          columns?: Array<{
+            column: string;
+            type: string;
+            nullable: string;
+            default: string | null;
+          }>;
+          indexes?: Array<{ name: string; definition: string }>;
+        }
+      > | null;
+      enums?: Record<string, string[]> | null;
+    } | null
+  > | null;
+}
+
+interface DocumentInput {
+  databases?: Record<
+    string,
+    {
+      collections?: Array<{
+        collection: string;
+        fields?: string[];
+        types?: Record<string, string[]>;
+        required?: string[];
+        indexes?: Array<{ name?: string; key: Record<string, unknown> }>;
+      }>;
+    }
+  >;
+}
+
+export type SchemaInput = RelationalInput & DocumentInput;
+
+/**
+ * Reduce analyzer output to the parts that are compared between extractions. Relational output
+ * keeps its schemas and tables; MongoDB databases become schemas and collections become tables,
+ * with each field path as a column.
+ */
+export function normalizeSchema(schema: SchemaInput): NormalizedSnapshot {
+  if (schema.databases) {
+    return normalizeDocumentSchema(schema);
+  }
+
+  const snapshot: NormalizedSnapshot = {};
+
+  Object.entries(schema.schemas || {}).forEach(([schemaName, schemaData]) => {
+    const tables: Record<string, NormalizedTable> = {};
+
+    Object.entries(schemaData?.tables || {}).forEach(([tableName, table]) => {
+      tables[tableName] = {
+        columns: Object.fromEntries(
+          (table.columns || []).map((col) => [
+            col.column,
+            {
+              type: col.type,
+              nullable: String(col.nullable).toUpperCase() === 'YES',
+              default: col.default ?? null,
+            },
+          ])
+        ),
+        indexes: Object.fromEntries((table.indexes || []).map((idx) => [idx.name, idx.definition])),
+      };
+    });
+
+    snapshot[schemaName] = { tables, enums: schemaData?.enums || {} };
+  });
+
+  return snapshot;
+}
+
+function normalizeDocumentSchema(schema: DocumentInput): NormalizedSnapshot {
+  const snapshot: NormalizedSnapshot = {};
+
+  Object.entries(schema.databases || {}).forEach(([databaseName, database]) => {
+    const tables: Record<string, NormalizedTable> = {};
+
+    (database.collections || []).forEach((coll) => {
+      tables[coll.collection] = {
+        columns: Object.fromEntries(
+          (coll.fields || []).map((field) => [
+            field,
+            {
+              type: (coll.types?.[field] || []).join(' | '),
+              nullable: !coll.required?.includes(field),
+              default: null,
+            },
+          ])
+        ),
+        indexes: Object.fromEntries(
+          (coll.indexes || []).map((idx) => [
+            idx.name || JSON.stringify(idx.key),
+            JSON.stringify(idx.key),
+          ])
+        ),
+      };
+    });
+
+    snapshot[databaseName] = { tables, enums: {} };
+  });
+
+  return snapshot;
+}
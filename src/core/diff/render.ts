@@ -0,0 +1,87 @@
+import type { SchemaChange, SchemaDiff } from './compare';
+import { escapeTableCell as cell } from '../../utils/helpers';
+
+export type DiffFormat = 'text' | 'markdown' | 'json';
+
+export const DIFF_FORMATS: DiffFormat[] = ['text', 'markdown', 'json'];
+
+const KIND_SYMBOLS: Record<SchemaChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+export function renderDiff(diff: SchemaDiff, format: DiffFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(diff, null, 2) + '\n';
+    case 'markdown':
+      return renderMarkdown(diff);
+    case 'text':
+    default:
+      return renderText(diff);
+  }
+}
+
+/**
+ * One-line count of the changes in a diff, e.g. `5 changes (2 added, 1 removed, 2 changed)`.
+ */
+export function summarizeDiff(diff: SchemaDiff): string {
+  const { changes } = diff;
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+
+  const count = (kind: SchemaChange['kind']): number =>
+    changes.filter((change) => change.kind === kind).length;
+
+  return `${changes.length} change${changes.length === 1 ? '' : 's'} (${count('added')} added, ${count('removed')} removed, ${count('changed')} changed)`;
+}
+
+export function describeChange(change: SchemaChange): string {
+  if (change.kind === 'changed') {
+    const label = change.attribute ? `${change.attribute}: ` : '';
+    return `${label}${change.before} -> ${change.after}`;
+  }
+
+  return change.after ?? change.before ?? '';
+}
+
+function renderText(diff: SchemaDiff): string {
+  let output = `Schema diff: ${diff.source} -> ${diff.target}\n`;
+  output += `${summarizeDiff(diff)}\n`;
+
+  if (diff.changes.length > 0) {
+    output += '\n';
+  }
+
+  diff.changes.forEach((change) => {
+    const details = describeChange(change);
+    output += `${KIND_SYMBOLS[change.kind]} ${change.object.padEnd(6)} ${change.name}`;
+    output += details ? `  ${details}\n` : '\n';
+  });
+
+  return output;
+}
+
+function renderMarkdown(diff: SchemaDiff): string {
+  let output = `# Schema Diff: ${diff.source} → ${diff.target}\n\n`;
+  output += `${summarizeDiff(diff)}.\n\n`;
+
+  (['added', 'removed', 'changed'] as const).forEach((kind) => {
+    const changes = diff.changes.filter((change) => change.kind === kind);
+    if (changes.length === 0) {
+      return;
+    }
+
+    output += `## ${kind.charAt(0).toUpperCase() + kind.slice(1)}\n\n`;
+    output += '| Object | Name | Details |\n';
+    output += '|--------|------|---------|\n';
+    changes.forEach((change) => {
+      output += `| ${change.object} | ${change.name} | ${cell(describeChange(change))} |\n`;
+    });
+    output += '\n';
+  });
+
+  return output;
+}
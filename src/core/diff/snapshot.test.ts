@@ -0,0 +1,78 @@
+import { RawFormatter } from '../formatters/raw';
+import type { SchemaStats } from '../types';
+import { ValidationError } from '../../utils/errors';
+import { parseSnapshot } from './snapshot';
+
+const schema = {
+  schemas: {
+    public: {
+      tables: {
+        users: {
+          columns: [
+            { column: 'id', type: 'integer', nullable: 'NO', default: null, constraints: null },
+          ],
+          foreignKeys: [],
+        },
+        posts: {
+          columns: [
+            {
+              column: 'user_id',
+              type: 'integer',
+              nullable: 'NO',
+              default: null,
+              constraints: null,
+            },
+          ],
+          foreignKeys: [
+            {
+              name: 'posts_user_id_fkey',
+              columns: ['user_id'],
+              referencedSchema: 'public',
+              referencedTable: 'users',
+              referencedColumns: ['id'],
+              onDelete: 'CASCADE',
+              onUpdate: 'NO ACTION',
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 2, details: { tables: 2 } };
+
+function rawOutput(): string {
+  return new RawFormatter('POSTGRES', { deterministic: true }).format(
+    JSON.stringify(schema),
+    stats
+  );
+}
+
+describe('parseSnapshot', () => {
+  it('reads the schema back from raw output with a relationships section', () => {
+    const output = rawOutput();
+
+    expect(output).toContain('Relationships');
+    expect(parseSnapshot(output, 'schema.txt')).toEqual(schema);
+  });
+
+  it('accepts raw output with CRLF line endings', () => {
+    const output = rawOutput().replace(/\n/g, '\r\n');
+
+    expect(parseSnapshot(output, 'schema.txt')).toEqual(schema);
+  });
+
+  it('accepts a file that holds only the JSON', () => {
+    expect(parseSnapshot(JSON.stringify(schema, null, 2), 'schema.json')).toEqual(schema);
+  });
+
+  it('rejects output that is not JSON, such as markdown', () => {
+    expect(() => parseSnapshot('# Schema\n\n| column | type |', 'schema.md')).toThrow(
+      ValidationError
+    );
+    expect(() => parseSnapshot('# Schema', 'schema.md')).toThrow(
+      "'schema.md' is not a raw schiba snapshot"
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import fs from 'fs/promises';
+import { ValidationError } from '../../utils/errors';
+
+// The banner `generateHeader` ends with; raw output continues with the schema JSON. Files
+// checked out on Windows may have CRLF line endings.
+const SCHEMA_DETAILS_BANNER = /Schema Details\r?\n=+\r?\n/;
+
+// The banner RawFormatter puts before its relationships section
+const RELATIONSHIPS_BANNER = /\r?\n\r?\n=+\r?\nRelationships\r?\n=+\r?\n/;
+
+/**
+ * Read the schema JSON back from raw `schiba fetch` output, or from a file that holds only the
+ * JSON. Markdown output cannot be compared because it doesn't keep the full structure.
+ */
+export function parseSnapshot(content: string, source: string): unknown {
+  let json = content;
+
+  const details = SCHEMA_DETAILS_BANNER.exec(json);
+  if (details) {
+    json = json.slice(details.index + details[0].length);
+  }
+
+  const relationships = RELATIONSHIPS_BANNER.exec(json);
+  if (relationships) {
+    json = json.slice(0, relationships.index);
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new ValidationError(
+      `'${source}' is not a raw schiba snapshot. Compare files written with --format raw.`
+    );
+  }
+}
+
+export async function readSnapshotFile(filePath: string): Promise<unknown> {
+  return parseSnapshot(await fs.readFile(filePath, 'utf8'), filePath);
+}
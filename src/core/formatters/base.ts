@@ -1,20 +1,57 @@
 import { TokenCounter } from '@/services/tokenizer/types';
 import { EMOJI_MAP } from '../../utils/constants';
-import { SchemaStats } from '../types';
+import { ForeignKeyDefinition, FormatterOptions, InferredReference, SchemaStats } from '../types';
 import { TokenCounterImpl } from '@/services/tokenizer/implementations';
 
+export interface Relationship {
+  schema: string;
+  table: string;
+  foreignKey: ForeignKeyDefinition;
+  // Set for inferred MongoDB references, which have no referential actions
+  confidence?: number;
+  evidence?: string[];
+}
+
+interface RelationalTables {
+  tables?: Record<string, { foreignKeys?: ForeignKeyDefinition[] }> | null;
+}
+
+interface DocumentCollections {
+  collections?: Array<{ collection: string; references?: InferredReference[] }>;
+}
+
+export type RelationalOutput = RelationalTables & {
+  schemas?: Record<string, RelationalTables | null> | null;
+  databases?: Record<string, DocumentCollections> | null;
+};
+
+/**
+ * Build a markdown anchor from one or more name parts, e.g. `anchor('public', 'users')` gives
+ * `public.users`, so tables with the same name in two schemas stay distinct. Parts are joined
+ * with a dot, which sanitising removes from the parts themselves, so `a-b` + `c` and `a` + `b-c`
+ * do not collide.
+ */
+export function anchor(...parts: string[]): string {
+  return parts.map((part) => part.toLowerCase().replace(/[^a-z0-9_-]+/g, '-')).join('.');
+}
+
 export abstract class BaseFormatter {
   protected tokenCounter: TokenCounter;
+  protected dbType: string;
+  protected options: FormatterOptions;
 
-  constructor() {
+  constructor(dbType: string = 'POSTGRES', options: FormatterOptions = {}) {
     this.tokenCounter = new TokenCounterImpl();
+    this.dbType = dbType.toUpperCase();
+    this.options = options;
   }
 
-  protected generateHeader(dbType: string, stats: SchemaStats): string {
+  protected generateHeader(stats: SchemaStats): string {
+    const dbType = this.dbType;
     const tokens = this.tokenCounter.countTokens(JSON.stringify(stats));
 
     return `${EMOJI_MAP.database} Database Schema Analysis
-Generated by Schiba on: ${new Date().toISOString()}
+${this.options.deterministic ? 'Generated by Schiba' : `Generated by Schiba on: ${new Date().toISOString()}`}
 
 ================================================================
 ${EMOJI_MAP.stats} Schema Summary
@@ -31,8 +68,7 @@ ${EMOJI_MAP.info} Content Organization:
    1. This summary section
    2. Database information
    3. Schema details:
-      - Tables, columns, constraints, indexes, and more
-      - Field types and relationships
+${this.formatContentOverview(dbType)}
 
 Usage Guidelines:
 ----------------
@@ -46,11 +82,7 @@ Schema Metrics:
 ${EMOJI_MAP.stats} Statistics:
    - Database Type: ${dbType}
    - Total Size: ${(stats.totalSize / 1024).toFixed(2)} KB
-   - Schemas: ${stats.schemas ? stats.schemas.length : 1} (${stats.schemas ? stats.schemas.join(', ') : 'public'})
-   ${stats.details.tables ? `- Tables: ${stats.details.tables}` : ''}
-   ${stats.details.columns ? `- Columns: ${stats.details.columns}` : ''}
-   ${stats.details.indexes ? `- Indexes: ${stats.details.indexes}` : ''}
-   ${stats.details.enums ? `- Enums: ${stats.details.enums}` : ''}
+${this.formatMetrics(dbType, stats)}
 
 Token Analysis:
 -------------
@@ -75,5 +107,124 @@ Schema Details
 `;
   }
 
+  /**
+   * A short header for formats that must stay loadable by other tools, written as comments
+   * starting with `prefix` (e.g. `//` for DBML, `%%` for Mermaid).
+   */
+  protected generateCommentHeader(prefix: string, stats: SchemaStats): string {
+    const generated = this.options.deterministic
+      ? 'Generated by Schiba'
+      : `Generated by Schiba on: ${new Date().toISOString()}`;
+    const scope = this.dbType === 'MONGODB' ? 'Databases' : 'Schemas';
+
+    return [
+      generated,
+      `Database Type: ${this.dbType}`,
+      `${scope}: ${stats.schemas ? stats.schemas.join(', ') : '-'}`,
+    ]
+      .map((line) => `${prefix} ${line}\n`)
+      .join('');
+  }
+
+  private formatContentOverview(dbType: string): string {
+    if (dbType === 'MONGODB') {
+      return `      - Collections, fields, inferred types and indexes
+      - Field presence, validator rules, collection options and view pipelines`;
+    }
+
+    return `      - Tables, columns, constraints, indexes, and more
+      - Field types and relationships`;
+  }
+
+  private formatMetrics(dbType: string, stats: SchemaStats): string {
+    const { details } = stats;
+    const metrics: Array<[string, number | undefined]> =
+      dbType === 'MONGODB'
+        ? [
+            ['Collections', details.collections],
+            ['Views', details.views],
+            ['Fields', details.fields],
+            ['Indexes', details.indexes],
+            ['Relations', details.relations],
+          ]
+        : [
+            ['Tables', details.tables],
+            ['Columns', details.columns],
+            ['Indexes', details.indexes],
+            ['Views', details.views],
+            ['Enums', details.enums],
+            ['Relations', details.relations],
+            ['Functions', details.functions],
+            ['Triggers', details.triggers],
+          ];
+
+    const scope =
+      dbType === 'MONGODB'
+        ? `   - Databases: ${stats.schemas ? stats.schemas.length : 1} (${stats.schemas ? stats.schemas.join(', ') : '-'})`
+        : `   - Schemas: ${stats.schemas ? stats.schemas.length : 1} (${stats.schemas ? stats.schemas.join(', ') : 'public'})`;
+
+    return [
+      scope,
+      ...metrics.filter(([, value]) => value).map(([label, value]) => `   - ${label}: ${value}`),
+    ].join('\n');
+  }
+
+  /**
+   * Collect every foreign key, whether tables are grouped under `schemas` or sit at the top level.
+   * MongoDB output grouped under `databases` contributes its inferred references.
+   */
+  protected collectRelationships(schema: RelationalOutput): Relationship[] {
+    if (schema.databases) {
+      return Object.entries(schema.databases).flatMap(([databaseName, database]) =>
+        (database?.collections || []).flatMap(({ collection, references }) =>
+          (references || []).map((reference) => ({
+            schema: databaseName,
+            table: collection,
+            foreignKey: {
+              name: '',
+              columns: [reference.field],
+              referencedSchema: reference.referencedDatabase,
+              referencedTable: reference.referencedCollection,
+              referencedColumns: [reference.referencedField],
+              onDelete: '',
+              onUpdate: '',
+            },
+            confidence: reference.confidence,
+            evidence: reference.evidence,
+          }))
+        )
+      );
+    }
+
+    const groups: Array<[string, RelationalTables | null]> = schema.schemas
+      ? Object.entries(schema.schemas)
+      : [['public', schema]];
+
+    return groups.flatMap(([schemaName, schemaData]) =>
+      Object.entries(schemaData?.tables || {}).flatMap(([tableName, table]) =>
+        (table.foreignKeys || []).map((foreignKey) => ({
+          schema: schemaName,
+          table: tableName,
+          foreignKey,
+        }))
+      )
+    );
+  }
+
+  protected formatRelationship({
+    schema,
+    table,
+    foreignKey,
+    confidence,
+    evidence,
+  }: Relationship): string {
+    const source = `${schema}.${table}(${foreignKey.columns.join(', ')})`;
+    const target = `${foreignKey.referencedSchema}.${foreignKey.referencedTable}(${foreignKey.referencedColumns.join(', ')})`;
+    if (confidence !== undefined) {
+      return `${source} -> ${target} confidence ${confidence} (${(evidence || []).join(', ')})`;
+    }
+    return `${source} -> ${target} ON DELETE ${foreignKey.onDelete} ON UPDATE ${foreignKey.onUpdate}`;
+  }
+
   abstract format(schema: string, stats: SchemaStats): string;
 }
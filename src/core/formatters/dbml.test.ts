@@ -0,0 +1,178 @@
+import type { ColumnDefinition, SchemaStats } from '../types';
+import { DbmlFormatter } from './dbml';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 2, details: { tables: 2 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'YES', default: null, constraints: null, ...extra };
+}
+
+function format(schema: unknown): string {
+  return new DbmlFormatter('POSTGRES', { deterministic: true }).format(
+    JSON.stringify(schema),
+    stats
+  );
+}
+
+describe('DbmlFormatter', () => {
+  it('renders enums, tables, indexes and references', () => {
+    const output = format({
+      schemas: {
+        public: {
+          enums: { role: ['admin', 'user'] },
+          tables: {
+            users: {
+              columns: [
+                column('id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] }),
+                column('role', 'role', { nullable: 'NO', default: "'user'::role" }),
+                column('email', 'character varying(255)'),
+              ],
+              indexes: [
+                { name: 'users_pkey', definition: 'CREATE UNIQUE INDEX users_pkey ON users (id)' },
+                {
+                  name: 'users_email_idx',
+                  definition: 'CREATE INDEX users_email_idx ON users (email)',
+                },
+              ],
+            },
+            posts: {
+              columns: [column('user_id', 'integer', { nullable: 'NO' })],
+              indexes: [],
+              foreignKeys: [
+                {
+                  name: 'posts_user_id_fkey',
+                  columns: ['user_id'],
+                  referencedSchema: 'public',
+                  referencedTable: 'users',
+                  referencedColumns: ['id'],
+                  onDelete: 'CASCADE',
+                  onUpdate: 'NO ACTION',
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain('Enum "public"."role" {\n  "admin"\n  "user"\n}');
+    expect(output).toContain('  "id" integer [pk]\n');
+    expect(output).toContain('  "email" "character varying(255)"\n');
+    expect(output).toContain('    "email" [name: \'users_email_idx\']\n');
+    expect(output).not.toContain('users_pkey');
+    expect(output).toContain(
+      'Ref: "public"."posts"."user_id" > "public"."users"."id" [delete: cascade, update: no action]'
+    );
+  });
+
+  it('qualifies enum columns with the schema the enum is declared in', () => {
+    const output = format({
+      schemas: {
+        public: { enums: { status: ['on', 'off'] }, tables: {} },
+        sales: {
+          enums: { stage: ['lead', 'won'] },
+          tables: {
+            deals: {
+              columns: [
+                column('status', 'status', { nullable: 'NO', default: "'on'::public.status" }),
+                column('stage', 'stage'),
+                column('previous_stage', 'sales.stage'),
+              ],
+              indexes: [],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain('  "status" "public"."status" [not null, default: \'on\']\n');
+    expect(output).toContain('  "stage" "sales"."stage"\n');
+    expect(output).toContain('  "previous_stage" "sales"."stage"\n');
+  });
+
+  it('skips references to tables that are not in the output', () => {
+    const output = format({
+      schemas: {
+        public: {
+          tables: {
+            orders: {
+              columns: [column('account_id', 'integer'), column('user_id', 'integer')],
+              indexes: [],
+              foreignKeys: [
+                {
+                  name: 'orders_account_id_fkey',
+                  columns: ['account_id'],
+                  referencedSchema: 'billing',
+                  referencedTable: 'accounts',
+                  referencedColumns: ['id'],
+                  onDelete: 'NO ACTION',
+                  onUpdate: 'NO ACTION',
+                },
+                {
+                  name: 'orders_user_id_fkey',
+                  columns: ['user_id'],
+                  referencedSchema: 'public',
+                  referencedTable: 'orders',
+                  referencedColumns: ['account_id'],
+                  onDelete: 'NO ACTION',
+                  onUpdate: 'NO ACTION',
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).not.toContain('"billing"');
+    expect(output).toContain('Ref: "public"."orders"."user_id" > "public"."orders"."account_id"');
+  });
+
+  it('renders MongoDB collections with their inferred references', () => {
+    const output = format({
+      databases: {
+        app: {
+          collections: [
+            {
+              collection: 'orders',
+              fields: ['_id', 'userId', 'couponId'],
+              types: { _id: ['objectId'], userId: ['objectId'], couponId: ['objectId'] },
+              required: ['_id', 'userId'],
+              indexes: [{ name: '_id_', key: { _id: 1 } }],
+              references: [
+                {
+                  field: 'userId',
+                  referencedDatabase: 'app',
+                  referencedCollection: 'users',
+                  referencedField: '_id',
+                  confidence: 1,
+                  evidence: ['field name'],
+                },
+                {
+                  field: 'couponId',
+                  referencedDatabase: 'app',
+                  referencedCollection: 'coupons',
+                  referencedField: '_id',
+                  confidence: 0.5,
+                  evidence: ['field name'],
+                },
+              ],
+            },
+            { collection: 'users', fields: ['_id'], types: { _id: ['objectId'] } },
+          ],
+        },
+      },
+    });
+
+    expect(output).toContain('Table "app"."orders" {\n  "_id" objectId [pk]\n');
+    expect(output).toContain('  "userId" objectId [not null]\n');
+    expect(output).toContain(
+      'Ref: "app"."orders"."userId" > "app"."users"."_id" // inferred, confidence 1'
+    );
+    expect(output).not.toContain('"coupons"');
+  });
+});
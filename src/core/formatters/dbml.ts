@@ -0,0 +1,262 @@
+import { BaseFormatter } from './base';
+import { SchemaStats, ColumnDefinition } from '../types';
+import {
+  CollectionShape,
+  SchemaShape,
+  TableEntry,
+  enumEntries,
+  isNullable,
+  isPrimaryKey,
+  isUnique,
+  parseIndex,
+  resolveUserType,
+  tableEntries,
+} from './shapes';
+
+/**
+ * Renders the schema as DBML (https://dbml.dbdiagram.io), which loads into dbdiagram.io and
+ * similar tools. MongoDB collections become tables with one column per field path.
+ */
+export class DbmlFormatter extends BaseFormatter {
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as SchemaShape;
+      const body = schema.databases
+        ? this.formatDatabases(schema.databases)
+        : this.formatSchemas(schema);
+
+      return `${this.generateCommentHeader('//', stats)}\n${body}`;
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  private formatSchemas(schema: SchemaShape): string {
+    let output = '';
+
+    enumEntries(schema).forEach(({ schema: schemaName, name, values }) => {
+      output += `Enum ${quote(schemaName)}.${quote(name)} {\n`;
+      values.forEach((value) => {
+        output += `  ${quote(value)}\n`;
+      });
+      output += '}\n\n';
+    });
+
+    const tables = tableEntries(schema);
+    tables.forEach((entry) => {
+      output += this.formatTable(entry, schema);
+    });
+
+    // A Ref to a table outside the output, e.g. in a schema that was not fetched, fails to load
+    const tableNames = new Set(
+      tables.map(({ schema: schemaName, name }) => `${schemaName}.${name}`)
+    );
+    tables.forEach(({ schema: schemaName, name, table }) => {
+      (table.foreignKeys || []).forEach((fk) => {
+        if (!tableNames.has(`${fk.referencedSchema}.${fk.referencedTable}`)) {
+          return;
+        }
+        const source = columnRef(schemaName, name, fk.columns);
+        const target = columnRef(fk.referencedSchema, fk.referencedTable, fk.referencedColumns);
+        const actions = [
+          fk.onDelete ? `delete: ${fk.onDelete.toLowerCase()}` : null,
+          fk.onUpdate ? `update: ${fk.onUpdate.toLowerCase()}` : null,
+        ].filter(Boolean);
+        output += `Ref: ${source} > ${target}${actions.length ? ` [${actions.join(', ')}]` : ''}\n`;
+      });
+    });
+
+    return output;
+  }
+
+  private formatTable(
+    { schema: schemaName, name, table }: TableEntry,
+    schema: SchemaShape
+  ): string {
+    const columns = table.columns || [];
+    const primaryKey = columns.filter(isPrimaryKey).map((col) => col.column);
+    // A composite primary key is declared as an index instead of on each column
+    const inlinePrimaryKey = primaryKey.length === 1;
+
+    let output = `Table ${quote(schemaName)}.${quote(name)} {\n`;
+
+    columns.forEach((col) => {
+      output += `  ${quote(col.column)} ${columnType(col.type, schemaName, schema)}${this.formatColumnSettings(col, inlinePrimaryKey)}\n`;
+    });
+
+    const indexes: string[] = [];
+    if (primaryKey.length > 1) {
+      indexes.push(`(${primaryKey.map(indexColumn).join(', ')}) [pk]`);
+    }
+
+    (table.indexes || []).forEach((idx) => {
+      const parsed = parseIndex(idx.definition);
+      if (!parsed || parsed.columns.length === 0 || parsed.primary) {
+        return;
+      }
+
+      // Primary keys and unique columns are already marked on the columns themselves
+      const sameAsPrimaryKey = parsed.unique && parsed.columns.join(',') === primaryKey.join(',');
+      const sameAsUniqueColumn =
+        parsed.unique &&
+        parsed.columns.length === 1 &&
+        columns.some((col) => col.column === parsed.columns[0] && isUnique(col));
+      if (sameAsPrimaryKey || sameAsUniqueColumn) {
+        return;
+      }
+
+      const keys =
+        parsed.columns.length === 1
+          ? indexColumn(parsed.columns[0])
+          : `(${parsed.columns.map(indexColumn).join(', ')})`;
+      const settings = [`name: ${note(idx.name)}`, parsed.unique ? 'unique' : null].filter(Boolean);
+      indexes.push(`${keys} [${settings.join(', ')}]`);
+    });
+
+    if (indexes.length > 0) {
+      output += '\n  indexes {\n';
+      indexes.forEach((idx) => {
+        output += `    ${idx}\n`;
+      });
+      output += '  }\n';
+    }
+
+    if (table.description) {
+      output += `\n  Note: ${note(table.description)}\n`;
+    }
+
+    return output + '}\n\n';
+  }
+
+  private formatColumnSettings(col: ColumnDefinition, inlinePrimaryKey: boolean): string {
+    const primary = inlinePrimaryKey && isPrimaryKey(col);
+    const settings = [
+      primary ? 'pk' : null,
+      !primary && !isNullable(col) ? 'not null' : null,
+      !primary && isUnique(col) ? 'unique' : null,
+      col.default !== null && col.default !== undefined
+        ? `default: ${dbmlDefault(col.default)}`
+        : null,
+      col.description ? `note: ${note(col.description)}` : null,
+    ].filter(Boolean);
+
+    return settings.length > 0 ? ` [${settings.join(', ')}]` : '';
+  }
+
+  private formatDatabases(databases: NonNullable<SchemaShape['databases']>): string {
+    let output = '';
+    const references: string[] = [];
+    const collectionNames = new Set(
+      Object.entries(databases).flatMap(([databaseName, { collections }]) =>
+        (collections || [])
+          .filter(({ type }) => type !== 'view')
+          .map(({ collection }) => `${databaseName}.${collection}`)
+      )
+    );
+
+    Object.entries(databases).forEach(([databaseName, { collections }]) => {
+      (collections || [])
+        .filter(({ type }) => type !== 'view')
+        .forEach((coll) => {
+          output += this.formatCollection(databaseName, coll);
+
+          (coll.references || []).forEach((ref) => {
+            if (!collectionNames.has(`${ref.referencedDatabase}.${ref.referencedCollection}`)) {
+              return;
+            }
+            const source = columnRef(databaseName, coll.collection, [ref.field]);
+            const target = columnRef(ref.referencedDatabase, ref.referencedCollection, [
+              ref.referencedField,
+            ]);
+            references.push(`Ref: ${source} > ${target} // inferred, confidence ${ref.confidence}`);
+          });
+        });
+    });
+
+    return output + references.map((ref) => `${ref}\n`).join('');
+  }
+
+  private formatCollection(databaseName: string, coll: CollectionShape): string {
+    let output = `Table ${quote(databaseName)}.${quote(coll.collection)} {\n`;
+
+    coll.fields.forEach((field) => {
+      const type = (coll.types[field] || ['unknown']).join('|');
+      const settings = [
+        field === '_id' ? 'pk' : null,
+        field !== '_id' && coll.required?.includes(field) ? 'not null' : null,
+      ].filter(Boolean);
+      output += `  ${quote(field)} ${dbmlType(type)}${settings.length ? ` [${settings.join(', ')}]` : ''}\n`;
+    });
+
+    const indexes = (coll.indexes || []).filter(({ name }) => name !== '_id_');
+    if (indexes.length > 0) {
+      output += '\n  indexes {\n';
+      indexes.forEach((idx) => {
+        const keys = Object.keys(idx.key);
+        const columns =
+          keys.length === 1 ? indexColumn(keys[0]) : `(${keys.map(indexColumn).join(', ')})`;
+        const settings = [
+          idx.name ? `name: ${note(idx.name)}` : null,
+          idx.unique ? 'unique' : null,
+        ].filter(Boolean);
+        output += `    ${columns}${settings.length ? ` [${settings.join(', ')}]` : ''}\n`;
+      });
+      output += '  }\n';
+    }
+
+    return output + '}\n\n';
+  }
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '\\"')}"`;
+}
+
+function note(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+// DBML accepts bare types like `varchar(255)`; anything with spaces or symbols is quoted
+function dbmlType(type: string): string {
+  return /^[\w]+(\([\d\s,]+\))?(\[\])?$/.test(type) ? type : quote(type);
+}
+
+/**
+ * Enums are declared with their schema, so a column of an enum type names it the same way;
+ * Postgres leaves the schema off when the enum is on the search path.
+ */
+function columnType(type: string, schemaName: string, schema: SchemaShape): string {
+  const userType = resolveUserType(type, schemaName, schema);
+  return userType?.kind === 'enum'
+    ? `${quote(userType.schema)}.${quote(userType.name)}`
+    : dbmlType(type);
+}
+
+function columnRef(schemaName: string, table: string, columns: string[]): string {
+  const target = `${quote(schemaName)}.${quote(table)}`;
+  return columns.length === 1
+    ? `${target}.${quote(columns[0])}`
+    : `${target}.(${columns.map(quote).join(', ')})`;
+}
+
+function indexColumn(column: string): string {
+  return /^[\w$]+$/.test(column) ? quote(column) : `\`${column}\``;
+}
+
+/**
+ * Numbers, booleans and string literals are written as DBML values; anything else, such as
+ * `now()` or `nextval(...)`, is written as an expression.
+ */
+function dbmlDefault(value: string): string {
+  if (/^-?\d+(\.\d+)?$/.test(value) || /^(true|false|null)$/i.test(value)) {
+    return value.toLowerCase();
+  }
+
+  // Postgres casts its literals, e.g. 'active'::status
+  const literal = /^'((?:[^']|'')*)'(::[\w\s."[\]]+)?$/.exec(value);
+  if (literal) {
+    return note(literal[1].replace(/''/g, "'"));
+  }
+
+  return `\`${value.replace(/`/g, "'")}\``;
+}
@@ -1,17 +1,56 @@
 import { BaseFormatter } from './base';
+import { DbmlFormatter } from './dbml';
 import { MarkdownFormatter } from './markdown';
+import { MermaidFormatter } from './mermaid';
+import { MongoMarkdownFormatter } from './mongo-markdown';
+import { PrismaFormatter } from './prisma';
 import { RawFormatter } from './raw';
+import { TypeScriptFormatter } from './typescript';
+import { ZodFormatter } from './zod';
+import type { FormatterOptions, OutputFormat } from '../types';
 
-export function createFormatter(format: 'raw' | 'markdown'): BaseFormatter {
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  'raw',
+  'markdown',
+  'dbml',
+  'mermaid',
+  'typescript',
+  'zod',
+  'prisma',
+];
+
+export function createFormatter(
+  format: OutputFormat,
+  dbType: string,
+  options: FormatterOptions = {}
+): BaseFormatter {
   switch (format) {
     case 'markdown':
-      return new MarkdownFormatter();
+      return dbType.toUpperCase() === 'MONGODB'
+        ? new MongoMarkdownFormatter(dbType, options)
+        : new MarkdownFormatter(dbType, options);
+    case 'dbml':
+      return new DbmlFormatter(dbType, options);
+    case 'mermaid':
+      return new MermaidFormatter(dbType, options);
+    case 'typescript':
+      return new TypeScriptFormatter(dbType, options);
+    case 'zod':
+      return new ZodFormatter(dbType, options);
+    case 'prisma':
+      return new PrismaFormatter(dbType, options);
     case 'raw':
     default:
-      return new RawFormatter();
+      return new RawFormatter(dbType, options);
   }
 }
 
 export * from './base';
+export * from './dbml';
 export * from './markdown';
-export * from './raw';
\ No newline at end of file
+export * from './mermaid';
+export * from './mongo-markdown';
+export * from './prisma';
+export * from './raw';
+export * from './typescript';
+export * from './zod';
@@ -0,0 +1,102 @@
+import type { ColumnDefinition, SchemaStats } from '../types';
+import { MarkdownFormatter } from './markdown';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 2, details: { tables: 2 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'YES', default: null, constraints: null, ...extra };
+}
+
+function format(schema: unknown): string {
+  return new MarkdownFormatter('POSTGRES', { deterministic: true }).format(
+    JSON.stringify(schema),
+    stats
+  );
+}
+
+const schema = {
+  schemas: {
+    public: {
+      enums: { status: ['active', 'closed'] },
+      tables: {
+        users: {
+          description: 'Registered users',
+          columns: [
+            column('id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] }),
+            column('status', 'status', { default: "'active'::status" }),
+          ],
+        },
+      },
+    },
+    sales: {
+      tables: {
+        orders: {
+          columns: [
+            column('id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] }),
+            column('user_id', 'integer'),
+            column('a|b', 'text', { description: 'Either a\nor b' }),
+          ],
+          indexes: [{ name: 'orders_a|b_idx', definition: 'CREATE INDEX ON orders ("a|b")' }],
+          foreignKeys: [
+            {
+              name: 'orders_user_id_fkey',
+              columns: ['user_id'],
+              referencedSchema: 'public',
+              referencedTable: 'users',
+              referencedColumns: ['id'],
+              onDelete: 'CASCADE',
+              onUpdate: 'NO ACTION',
+            },
+          ],
+        },
+      },
+    },
+  },
+};
+
+describe('MarkdownFormatter', () => {
+  it('writes a table of contents and a section per schema', () => {
+    const output = format(schema);
+
+    expect(output).toContain(
+      [
+        '## Table of Contents',
+        '',
+        '- [Schema: public](#public)',
+        '  - [public.users](#public.users)',
+        '- [Schema: sales](#sales)',
+        '  - [sales.orders](#sales.orders)',
+      ].join('\n')
+    );
+    expect(output).toContain('<a id="public"></a>\n\n## Schema: public\n\n');
+    expect(output).toContain('<a id="sales.orders"></a>\n\n### sales.orders\n\n');
+    expect(output).toContain('### Enums\n\n- **status**: active, closed\n');
+  });
+
+  it('links foreign keys to the referenced table in another schema', () => {
+    const output = format(schema);
+
+    expect(output).toContain(
+      '| orders_user_id_fkey | user_id | [public.users](#public.users)(id) | CASCADE | NO ACTION |'
+    );
+  });
+
+  it('escapes pipes and line breaks in identifiers and comments', () => {
+    const output = format(schema);
+
+    expect(output).toContain('| Column | Type | Nullable | Default | Constraints | Description |');
+    expect(output).toContain('| a\\|b | text | YES | null |  | Either a or b |');
+    expect(output).toContain('| orders_a\\|b_idx | CREATE INDEX ON orders ("a\\|b") |');
+  });
+
+  it('leaves out the description column when no column has a comment', () => {
+    const output = format(schema);
+
+    expect(output).toContain('| Column | Type | Nullable | Default | Constraints |\n');
+    expect(output).toContain('| id | integer | NO | null | PRIMARY KEY |\n');
+  });
+});
@@ -1,38 +1,88 @@
-import { BaseFormatter } from './base';
-import { ColumnDefinition, SchemaStats, TableIndex } from '../types';
+import { BaseFormatter, anchor } from './base';
+import { escapeTableCell as cell } from '../../utils/helpers';
+import {
+  ColumnDefinition,
+  ForeignKeyDefinition,
+  SchemaStats,
+  TableConstraint,
+  TableIndex,
+} from '../types';
 
 interface TableInfo {
-  description?: string;
-  columns?: Array<{
-    column: string;
-    type: string;
-    nullable: string;
-    default: string | null;
-    constraints: string[] | null;
+  description?: string | null;
+  columns?: ColumnDefinition[];
+  indexes?: TableIndex[];
+  foreignKeys?: ForeignKeyDefinition[];
+  constraints?: TableConstraint[];
+  triggers?: Array<{
+    name: string;
+    timing: string;
+    events: string[];
+    level: string;
+    function: string;
+    enabled: boolean;
   }>;
-  indexes: TableIndex[];
+}
+
+interface ViewInfo extends Omit<TableInfo, 'columns'> {
+  kind: string;
+  columns?: Array<{ column: string; type: string; nullable: string }>;
+  definition: string;
+}
+
+interface RoutineInfo {
+  kind: string;
+  name: string;
+  arguments: string;
+  returns: string | null;
+  language: string;
+  volatility: string;
+  body?: string;
+  description?: string | null;
+}
+
+interface DomainInfo {
+  type: string;
+  nullable: string;
+  default: string | null;
+  constraints: string[] | null;
+}
+
+interface SchemaInfo {
+  tables?: Record<string, TableInfo> | null;
+  views?: Record<string, ViewInfo> | null;
+  functions?: Record<string, RoutineInfo> | null;
+  enums?: Record<string, string[]> | null;
+  domains?: Record<string, DomainInfo> | null;
+  compositeTypes?: Record<string, Array<{ column: string; type: string }>> | null;
+  sequences?: Record<string, Record<string, unknown>> | null;
+  synonyms?: Record<string, { owner: string; object: string; dbLink: string | null }> | null;
 }
 
 interface Schema {
-  tables?: Record<string, TableInfo>;
-  enums?: Record<string, string[]>;
+  schemas?: Record<string, SchemaInfo> | null;
 }
 
 export class MarkdownFormatter extends BaseFormatter {
   format(schemaStr: string, stats: SchemaStats): string {
     try {
       const schema = JSON.parse(schemaStr) as Schema;
-      let output = this.generateHeader('POSTGRES', stats);
+      const schemas = Object.entries(schema.schemas || {});
+      let output = this.generateHeader(stats);
 
       output += '# Database Schema Documentation\n\n';
 
-      if (schema.tables) {
-        output += this.formatTables(schema.tables);
+      if (schemas.length === 0) {
+        return output + '_No tables found in the selected schemas._\n';
       }
 
-      if (schema.enums) {
-        output += this.formatEnums(schema.enums);
-      }
+      output += this.formatTableOfContents(schemas);
+
+      schemas.forEach(([schemaName, schemaInfo]) => {
+        output += this.formatSchema(schemaName, schemaInfo);
+      });
+
+      output += this.formatRelationships(schema);
 
       return output;
     } catch (error) {
@@ -40,38 +90,139 @@ export class MarkdownFormatter extends BaseFormatter {
     }
   }
 
-  private formatTables(tables: Record<string, TableInfo>): string {
-    let output = '## Tables\n\n';
+  private formatTableOfContents(schemas: Array<[string, SchemaInfo]>): string {
+    let output = '## Table of Contents\n\n';
 
-    Object.entries(tables).forEach(([tableName, tableInfo]) => {
-      output += `### ${tableName}\n\n`;
+    schemas.forEach(([schemaName, schemaInfo]) => {
+      output += `- [Schema: ${schemaName}](#${anchor(schemaName)})\n`;
 
-      if (tableInfo.description) {
-        output += `${tableInfo.description}\n\n`;
-      }
+      Object.keys(schemaInfo.tables || {}).forEach((tableName) => {
+        output += `  - [${schemaName}.${tableName}](#${anchor(schemaName, tableName)})\n`;
+      });
 
-      if (tableInfo.columns) {
-        output += this.formatColumns(tableInfo.columns);
-      }
+      Object.keys(schemaInfo.views || {}).forEach((viewName) => {
+        output += `  - [${schemaName}.${viewName}](#${anchor(schemaName, viewName)}) (view)\n`;
+      });
+    });
 
-      // Check if indexes exist and have length
-      if (tableInfo.indexes && tableInfo.indexes.length > 0) {
-        output += this.formatIndexes(tableInfo.indexes);
-      }
+    return output + '\n';
+  }
+
+  private formatSchema(schemaName: string, schemaInfo: SchemaInfo): string {
+    let output = `<a id="${anchor(schemaName)}"></a>\n\n## Schema: ${schemaName}\n\n`;
+
+    Object.entries(schemaInfo.tables || {}).forEach(([tableName, tableInfo]) => {
+      output += this.formatTable(schemaName, tableName, tableInfo);
+    });
+
+    Object.entries(schemaInfo.views || {}).forEach(([viewName, viewInfo]) => {
+      output += this.formatView(schemaName, viewName, viewInfo);
     });
 
+    if (schemaInfo.functions) {
+      output += this.formatFunctions(schemaInfo.functions);
+    }
+
+    if (schemaInfo.enums) {
+      output += this.formatEnums(schemaInfo.enums);
+    }
+
+    if (schemaInfo.domains) {
+      output += this.formatDomains(schemaInfo.domains);
+    }
+
+    if (schemaInfo.compositeTypes) {
+      output += this.formatCompositeTypes(schemaInfo.compositeTypes);
+    }
+
+    if (schemaInfo.sequences) {
+      output += this.formatSequences(schemaInfo.sequences);
+    }
+
+    if (schemaInfo.synonyms) {
+      output += this.formatSynonyms(schemaInfo.synonyms);
+    }
+
+    return output;
+  }
+
+  private formatTable(schemaName: string, tableName: string, tableInfo: TableInfo): string {
+    let output = `<a id="${anchor(schemaName, tableName)}"></a>\n\n`;
+    output += `### ${schemaName}.${tableName}\n\n`;
+
+    if (tableInfo.description) {
+      output += `${tableInfo.description}\n\n`;
+    }
+
+    if (tableInfo.columns) {
+      output += this.formatColumns(tableInfo.columns);
+    }
+
+    // Check if indexes exist and have length
+    if (tableInfo.indexes && tableInfo.indexes.length > 0) {
+      output += this.formatIndexes(tableInfo.indexes);
+    }
+
+    if (tableInfo.constraints && tableInfo.constraints.length > 0) {
+      output += this.formatConstraints(tableInfo.constraints);
+    }
+
+    if (tableInfo.foreignKeys && tableInfo.foreignKeys.length > 0) {
+      output += this.formatForeignKeys(tableInfo.foreignKeys);
+    }
+
+    if (tableInfo.triggers && tableInfo.triggers.length > 0) {
+      output += this.formatTriggers(tableInfo.triggers);
+    }
+
+    return output;
+  }
+
+  private formatView(schemaName: string, viewName: string, viewInfo: ViewInfo): string {
+    const kind = viewInfo.kind === 'materialized' ? 'Materialized View' : 'View';
+    let output = `<a id="${anchor(schemaName, viewName)}"></a>\n\n`;
+    output += `### ${schemaName}.${viewName} (${kind})\n\n`;
+
+    if (viewInfo.description) {
+      output += `${viewInfo.description}\n\n`;
+    }
+
+    if (viewInfo.columns) {
+      output += '#### Columns\n\n';
+      output += '| Column | Type | Nullable |\n';
+      output += '|--------|------|----------|\n';
+      viewInfo.columns.forEach((col) => {
+        output += `| ${cell(col.column)} | ${cell(col.type)} | ${col.nullable} |\n`;
+      });
+      output += '\n';
+    }
+
+    output += '#### Definition\n\n';
+    output += '```sql\n' + viewInfo.definition.trim() + '\n```\n\n';
+
+    if (viewInfo.indexes && viewInfo.indexes.length > 0) {
+      output += this.formatIndexes(viewInfo.indexes);
+    }
+
+    if (viewInfo.triggers && viewInfo.triggers.length > 0) {
+      output += this.formatTriggers(viewInfo.triggers);
+    }
+
     return output;
   }
 
   private formatColumns(columns: ColumnDefinition[]): string {
+    // Column comments get their own column, left out when no column has one
+    const described = columns.some((col) => col.description);
     let output = '#### Columns\n\n';
-    output += '| Column | Type | Nullable | Default | Constraints |\n';
-    output += '|--------|------|----------|----------|-------------|\n';
+    output += `| Column | Type | Nullable | Default | Constraints |${described ? ' Description |' : ''}\n`;
+    output += `|--------|------|----------|----------|-------------|${described ? '-------------|' : ''}\n`;
 
     columns.forEach((col) => {
       const constraints = col.constraints ? col.constraints.join(', ') : '';
       const defaultVal = col.default === null ? 'null' : col.default;
-      output += `| ${col.column} | ${col.type} | ${col.nullable} | ${defaultVal} | ${constraints} |\n`;
+      const description = described ? ` ${cell(col.description || '')} |` : '';
+      output += `| ${cell(col.column)} | ${cell(col.type)} | ${col.nullable} | ${cell(defaultVal)} | ${constraints} |${description}\n`;
     });
 
     return output + '\n';
@@ -83,20 +234,149 @@ export class MarkdownFormatter extends BaseFormatter {
     output += '|------|------------|\n';
 
     indexes.forEach((idx) => {
-      output += `| ${idx.name} | ${idx.definition} |\n`;
+      output += `| ${cell(idx.name)} | ${cell(idx.definition)} |\n`;
     });
 
     return output + '\n';
   }
 
+  private formatConstraints(constraints: TableConstraint[]): string {
+    let output = '#### Constraints\n\n';
+    output += '| Name | Type | Columns | Definition |\n';
+    output += '|------|------|---------|------------|\n';
+
+    constraints.forEach((con) => {
+      output += `| ${cell(con.name)} | ${con.type} | ${cell(con.columns.join(', '))} | ${cell(con.definition)} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatForeignKeys(foreignKeys: ForeignKeyDefinition[]): string {
+    let output = '#### Foreign Keys\n\n';
+    output += '| Name | Columns | References | On Delete | On Update |\n';
+    output += '|------|---------|------------|-----------|-----------|\n';
+
+    foreignKeys.forEach((fk) => {
+      const target = `${fk.referencedSchema}.${fk.referencedTable}`;
+      const references = `[${target}](#${anchor(fk.referencedSchema, fk.referencedTable)})(${fk.referencedColumns.join(', ')})`;
+      output += `| ${cell(fk.name)} | ${cell(fk.columns.join(', '))} | ${cell(references)} | ${fk.onDelete} | ${fk.onUpdate} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatTriggers(triggers: NonNullable<TableInfo['triggers']>): string {
+    let output = '#### Triggers\n\n';
+    output += '| Name | Timing | Events | Level | Function | Enabled |\n';
+    output += '|------|--------|--------|-------|----------|---------|\n';
+
+    triggers.forEach((trigger) => {
+      output += `| ${cell(trigger.name)} | ${trigger.timing} | ${trigger.events.join(', ')} | ${trigger.level} | ${cell(trigger.function)} | ${trigger.enabled ? 'YES' : 'NO'} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatFunctions(functions: Record<string, RoutineInfo>): string {
+    let output = '### Functions\n\n';
+
+    Object.entries(functions).forEach(([signature, routine]) => {
+      output += `#### ${signature}\n\n`;
+
+      if (routine.description) {
+        output += `${routine.description}\n\n`;
+      }
+
+      output += `- Kind: ${routine.kind}\n`;
+      if (routine.returns) {
+        output += `- Returns: ${routine.returns}\n`;
+      }
+      output += `- Language: ${routine.language}\n`;
+      output += `- Volatility: ${routine.volatility}\n\n`;
+
+      if (routine.body) {
+        output += '```sql\n' + routine.body.trim() + '\n```\n\n';
+      }
+    });
+
+    return output;
+  }
+
   private formatEnums(enums: Record<string, string[]>): string {
-    let output = '## Enums\n\n';
+    let output = '### Enums\n\n';
 
     Object.entries(enums).forEach(([enumName, values]) => {
-      output += `### ${enumName}\n\n`;
-      output += `Values: ${values.join(', ')}\n\n`;
+      output += `- **${enumName}**: ${values.join(', ')}\n`;
     });
 
-    return output;
+    return output + '\n';
+  }
+
+  private formatDomains(domains: Record<string, DomainInfo>): string {
+    let output = '### Domains\n\n';
+    output += '| Name | Type | Nullable | Default | Constraints |\n';
+    output += '|------|------|----------|---------|-------------|\n';
+
+    Object.entries(domains).forEach(([domainName, domain]) => {
+      const constraints = domain.constraints ? domain.constraints.join(', ') : '';
+      const defaultVal = domain.default === null ? 'null' : domain.default;
+      output += `| ${cell(domainName)} | ${cell(domain.type)} | ${domain.nullable} | ${cell(defaultVal)} | ${cell(constraints)} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatCompositeTypes(
+    compositeTypes: Record<string, Array<{ column: string; type: string }>>
+  ): string {
+    let output = '### Composite Types\n\n';
+
+    Object.entries(compositeTypes).forEach(([typeName, attributes]) => {
+      const fields = attributes.map((attr) => `${attr.column} ${attr.type}`).join(', ');
+      output += `- **${typeName}**: (${fields})\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatSequences(sequences: Record<string, Record<string, unknown>>): string {
+    let output = '### Sequences\n\n';
+
+    Object.entries(sequences).forEach(([sequenceName, sequence]) => {
+      const options = Object.entries(sequence)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(', ');
+      output += `- **${sequenceName}**: ${options}\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatSynonyms(
+    synonyms: Record<string, { owner: string; object: string; dbLink: string | null }>
+  ): string {
+    let output = '### Synonyms\n\n';
+
+    Object.entries(synonyms).forEach(([synonymName, synonym]) => {
+      const dbLink = synonym.dbLink ? `@${synonym.dbLink}` : '';
+      output += `- **${synonymName}** → ${synonym.owner}.${synonym.object}${dbLink}\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatRelationships(schema: Schema): string {
+    const relationships = this.collectRelationships(schema);
+    if (relationships.length === 0) {
+      return '';
+    }
+
+    let output = '## Relationships\n\n';
+    relationships.forEach((relationship) => {
+      output += `- ${this.formatRelationship(relationship)}\n`;
+    });
+
+    return output + '\n';
   }
 }
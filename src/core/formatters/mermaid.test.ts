@@ -0,0 +1,133 @@
+import type {
+  ColumnDefinition,
+  ForeignKeyDefinition,
+  FormatterOptions,
+  SchemaStats,
+} from '../types';
+import { MermaidFormatter } from './mermaid';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 3, details: { tables: 3 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'YES', default: null, constraints: null, ...extra };
+}
+
+function foreignKey(name: string, column: string, referencedTable: string): ForeignKeyDefinition {
+  return {
+    name,
+    columns: [column],
+    referencedSchema: 'public',
+    referencedTable,
+    referencedColumns: ['id'],
+    onDelete: 'NO ACTION',
+    onUpdate: 'NO ACTION',
+  };
+}
+
+const schema = {
+  schemas: {
+    public: {
+      tables: {
+        users: {
+          columns: [
+            column('id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] }),
+            column('email', 'character varying(255)', { constraints: ['UNIQUE'] }),
+          ],
+        },
+        profiles: {
+          columns: [column('user_id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] })],
+          foreignKeys: [foreignKey('profiles_user_id_fkey', 'user_id', 'users')],
+        },
+        posts: {
+          columns: [
+            column('id', 'integer', { nullable: 'NO', constraints: ['PRIMARY KEY'] }),
+            column('author_id', 'integer'),
+          ],
+          foreignKeys: [foreignKey('posts_author_id_fkey', 'author_id', 'users')],
+        },
+      },
+    },
+  },
+};
+
+function format(input: unknown, options: FormatterOptions = {}): string {
+  return new MermaidFormatter('POSTGRES', { deterministic: true, ...options }).format(
+    JSON.stringify(input),
+    stats
+  );
+}
+
+describe('MermaidFormatter', () => {
+  it('renders entities with key markers', () => {
+    const output = format(schema);
+
+    expect(output).toContain('%% Generated by Schiba\n');
+    expect(output).toContain('erDiagram\n');
+    expect(output).toContain(
+      '    "public.users" {\n' +
+        '        integer id PK\n' +
+        '        character_varying(255) email UK\n' +
+        '    }\n'
+    );
+    expect(output).toContain('        integer author_id FK\n');
+  });
+
+  it('derives cardinality from nullability, uniqueness and primary keys', () => {
+    const output = format(schema);
+
+    // A primary key that is also the foreign key: one-to-one and identifying
+    expect(output).toContain(
+      '    "public.users" ||--o| "public.profiles" : "profiles_user_id_fkey"\n'
+    );
+    // A nullable, non-unique column: optional parent with many children
+    expect(output).toContain('    "public.users" |o..o{ "public.posts" : "posts_author_id_fkey"\n');
+  });
+
+  it('limits the diagram to the selected tables and their relationships', () => {
+    const output = format(schema, { diagram: { tables: ['posts', 'public.users'] } });
+
+    expect(output).toContain('"public.posts" {');
+    expect(output).not.toContain('"public.profiles"');
+    expect(output).toContain('"public.users" |o..o{ "public.posts"');
+  });
+
+  it('notes when no tables match the selection', () => {
+    const output = format(schema, { diagram: { schemas: ['sales'] } });
+
+    expect(output).toContain('erDiagram\n    %% No tables match the selected schemas and tables\n');
+  });
+
+  it('labels inferred MongoDB references', () => {
+    const output = format({
+      databases: {
+        app: {
+          collections: [
+            {
+              collection: 'orders',
+              fields: ['_id', 'userId'],
+              types: { _id: ['objectId'], userId: ['objectId', 'null'] },
+              references: [
+                {
+                  field: 'userId',
+                  referencedDatabase: 'app',
+                  referencedCollection: 'users',
+                  referencedField: '_id',
+                  confidence: 0.6,
+                  evidence: ['ObjectId type'],
+                },
+              ],
+            },
+            { collection: 'users', fields: ['_id'], types: { _id: ['objectId'] } },
+          ],
+        },
+      },
+    });
+
+    expect(output).toContain('        objectId_null userId FK\n');
+    expect(output).toContain('    "app.users" |o..o{ "app.orders" : "userId (inferred)"\n');
+  });
+});
@@ -0,0 +1,172 @@
+import { BaseFormatter, Relationship } from './base';
+import { SchemaStats } from '../types';
+import {
+  CollectionShape,
+  SchemaShape,
+  TableEntry,
+  isNullable,
+  isPrimaryKey,
+  isUnique,
+  tableEntries,
+} from './shapes';
+
+interface Entity {
+  schema: string;
+  name: string;
+  attributes: Attribute[];
+}
+
+interface Attribute {
+  name: string;
+  type: string;
+  keys: string[];
+  nullable: boolean;
+  unique: boolean;
+}
+
+/**
+ * Renders the schema as a Mermaid `erDiagram`, which GitHub and most wikis render natively.
+ * Large schemas quickly become unreadable, so the `diagram` options limit the entities drawn;
+ * relationships are only drawn when both ends are in the diagram.
+ */
+export class MermaidFormatter extends BaseFormatter {
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as SchemaShape;
+      const entities = (
+        schema.databases ? collectionEntities(schema.databases) : tableEntities(schema)
+      ).filter((entity) => this.isSelected(entity));
+      const relationships = this.collectRelationships(schema).filter(
+        ({ schema: schemaName, table, foreignKey }) =>
+          findEntity(entities, schemaName, table) &&
+          findEntity(entities, foreignKey.referencedSchema, foreignKey.referencedTable)
+      );
+
+      let output = `${this.generateCommentHeader('%%', stats)}erDiagram\n`;
+
+      if (entities.length === 0) {
+        return output + '    %% No tables match the selected schemas and tables\n';
+      }
+
+      entities.forEach((entity) => {
+        output += this.formatEntity(entity, relationships);
+      });
+
+      relationships.forEach((relationship) => {
+        output += this.formatEdge(entities, relationship);
+      });
+
+      return output;
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  // Tables can be selected by name or by `schema.table`
+  private isSelected({ schema, name }: Entity): boolean {
+    const { schemas, tables } = this.options.diagram || {};
+    const schemaSelected = !schemas?.length || schemas.includes(schema);
+    const tableSelected =
+      !tables?.length || tables.some((t) => t === name || t === `${schema}.${name}`);
+    return schemaSelected && tableSelected;
+  }
+
+  private formatEntity(entity: Entity, relationships: Relationship[]): string {
+    const foreignKeyColumns = new Set(
+      relationships
+        .filter(({ schema, table }) => schema === entity.schema && table === entity.name)
+        .flatMap(({ foreignKey }) => foreignKey.columns)
+    );
+
+    let output = `    ${entityName(entity.schema, entity.name)} {\n`;
+    entity.attributes.forEach((attr) => {
+      const keys = [...attr.keys, ...(foreignKeyColumns.has(attr.name) ? ['FK'] : [])];
+      output += `        ${identifier(attr.type)} ${identifier(attr.name)}${keys.length ? ` ${keys.join(', ')}` : ''}\n`;
+    });
+    return output + '    }\n';
+  }
+
+  /**
+   * The referenced side is optional when any referencing column is nullable, and the
+   * referencing side holds at most one row when its columns are unique. Keys that are part of
+   * the child's primary key are drawn as identifying (solid) relationships.
+   */
+  private formatEdge(
+    entities: Entity[],
+    { schema, table, foreignKey, confidence }: Relationship
+  ): string {
+    const child = findEntity(entities, schema, table) as Entity;
+    const columns = foreignKey.columns.map(
+      (column) => child.attributes.find((attr) => attr.name === column) as Attribute | undefined
+    );
+    const primaryKey = child.attributes.filter((attr) => attr.keys.includes('PK'));
+
+    const optionalParent = columns.some((attr) => !attr || attr.nullable);
+    const singleChild =
+      (columns.length === 1 && columns[0]?.unique) ||
+      (primaryKey.length > 0 &&
+        primaryKey.map((attr) => attr.name).join(',') === foreignKey.columns.join(','));
+    const identifying = columns.every((attr) => attr?.keys.includes('PK'));
+
+    const parentMarker = optionalParent ? '|o' : '||';
+    const childMarker = singleChild ? 'o|' : 'o{';
+    const line = identifying ? '--' : '..';
+    const label =
+      confidence !== undefined
+        ? `${foreignKey.columns.join(', ')} (inferred)`
+        : foreignKey.name || foreignKey.columns.join(', ');
+
+    return `    ${entityName(foreignKey.referencedSchema, foreignKey.referencedTable)} ${parentMarker}${line}${childMarker} ${entityName(schema, table)} : ${JSON.stringify(label)}\n`;
+  }
+}
+
+function tableEntities(schema: SchemaShape): Entity[] {
+  return tableEntries(schema).map(({ schema: schemaName, name, table }: TableEntry) => ({
+    schema: schemaName,
+    name,
+    attributes: (table.columns || []).map((col) => ({
+      name: col.column,
+      type: col.type,
+      keys: [isPrimaryKey(col) ? 'PK' : null, isUnique(col) ? 'UK' : null].filter(
+        (key): key is string => key !== null
+      ),
+      nullable: isNullable(col),
+      unique: isPrimaryKey(col) || isUnique(col),
+    })),
+  }));
+}
+
+function collectionEntities(databases: NonNullable<SchemaShape['databases']>): Entity[] {
+  return Object.entries(databases).flatMap(([databaseName, { collections }]) =>
+    (collections || [])
+      .filter(({ type }) => type !== 'view')
+      .map((coll: CollectionShape) => ({
+        schema: databaseName,
+        name: coll.collection,
+        attributes: coll.fields.map((field) => ({
+          name: field,
+          type: (coll.types[field] || ['unknown']).join('|'),
+          keys: field === '_id' ? ['PK'] : [],
+          nullable: field !== '_id' && !coll.required?.includes(field),
+          unique: field === '_id',
+        })),
+      }))
+  );
+}
+
+function findEntity(entities: Entity[], schema: string, name: string): Entity | undefined {
+  return entities.find((entity) => entity.schema === schema && entity.name === name);
+}
+
+function entityName(schema: string, name: string): string {
+  return JSON.stringify(`${schema}.${name}`);
+}
+
+// Attribute names and types may only contain word characters, hyphens and brackets
+function identifier(value: string): string {
+  const cleaned = value
+    .trim()
+    .replace(/[\s,.|]+/g, '_')
+    .replace(/[^\w\-()[\]]/g, '');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
@@ -0,0 +1,194 @@
+import { BaseFormatter, anchor } from './base';
+import { InferredReference, SchemaStats } from '../types';
+
+interface CollectionIndex {
+  name?: string;
+  key: Record<string, unknown>;
+  unique?: boolean;
+  sparse?: boolean;
+  expireAfterSeconds?: number;
+  partialFilterExpression?: Record<string, unknown>;
+}
+
+interface CollectionInfo {
+  collection: string;
+  type?: string;
+  fieldSource?: 'validator' | 'sample';
+  fields: string[];
+  types: Record<string, string[]>;
+  presence?: Record<string, number>;
+  required?: string[];
+  undeclaredFields?: string[];
+  indexes: CollectionIndex[];
+  references?: InferredReference[];
+  validator?: Record<string, unknown>;
+  options?: {
+    viewOn?: string;
+    pipeline?: Record<string, unknown>[];
+    [option: string]: unknown;
+  };
+}
+
+interface MongoOutput {
+  databases: Record<string, { collections: CollectionInfo[] }>;
+}
+
+export class MongoMarkdownFormatter extends BaseFormatter {
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as MongoOutput;
+      const { databases } = schema;
+      let output = this.generateHeader(stats);
+
+      output += '# Database Schema Documentation\n\n';
+      output += this.formatTableOfContents(databases);
+
+      Object.entries(databases).forEach(([databaseName, { collections }]) => {
+        output += `<a id="${anchor(databaseName)}"></a>\n\n`;
+        output += `## Database: ${databaseName}\n\n`;
+
+        if (collections.length === 0) {
+          output += '_No collections with documents found._\n\n';
+          return;
+        }
+
+        collections.forEach((collection) => {
+          output += this.formatCollection(databaseName, collection);
+        });
+      });
+
+      output += this.formatRelationships(schema);
+
+      return output;
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  private formatTableOfContents(databases: MongoOutput['databases']): string {
+    let output = '## Table of Contents\n\n';
+
+    Object.entries(databases).forEach(([databaseName, { collections }]) => {
+      output += `- [Database: ${databaseName}](#${anchor(databaseName)})\n`;
+      collections.forEach(({ collection, type }) => {
+        const suffix = type && type !== 'collection' ? ` (${type})` : '';
+        output += `  - [${collection}](#${anchor(databaseName, collection)})${suffix}\n`;
+      });
+    });
+
+    return output + '\n';
+  }
+
+  private formatCollection(databaseName: string, collection: CollectionInfo): string {
+    let output = `<a id="${anchor(databaseName, collection.collection)}"></a>\n\n`;
+    const suffix =
+      collection.type && collection.type !== 'collection' ? ` (${collection.type})` : '';
+    output += `### ${databaseName}.${collection.collection}${suffix}\n\n`;
+
+    if (collection.options?.viewOn) {
+      output += `View on \`${collection.options.viewOn}\`.\n\n`;
+    }
+
+    if (collection.fields.length > 0) {
+      output += this.formatFields(collection);
+    }
+
+    if (collection.undeclaredFields && collection.undeclaredFields.length > 0) {
+      output += `Sampled fields not declared by the validator: ${collection.undeclaredFields.join(', ')}\n\n`;
+    }
+
+    if (collection.indexes.length > 0) {
+      output += this.formatIndexes(collection.indexes);
+    }
+
+    if (collection.references && collection.references.length > 0) {
+      output += this.formatReferences(collection.references);
+    }
+
+    if (collection.validator) {
+      output += '#### Validator\n\n';
+      output += '```json\n' + JSON.stringify(collection.validator, null, 2) + '\n```\n\n';
+    }
+
+    if (collection.options?.pipeline) {
+      output += '#### Pipeline\n\n';
+      output += '```json\n' + JSON.stringify(collection.options.pipeline, null, 2) + '\n```\n\n';
+    }
+
+    const { pipeline: _pipeline, viewOn: _viewOn, ...otherOptions } = collection.options || {};
+    if (Object.keys(otherOptions).length > 0) {
+      output += '#### Options\n\n';
+      Object.entries(otherOptions).forEach(([option, value]) => {
+        output += `- ${option}: ${typeof value === 'object' ? JSON.stringify(value) : value}\n`;
+      });
+      output += '\n';
+    }
+
+    return output;
+  }
+
+  private formatFields(collection: CollectionInfo): string {
+    const source = collection.fieldSource === 'validator' ? ' (from $jsonSchema validator)' : '';
+    let output = `#### Fields${source}\n\n`;
+    output += '| Field | Types | Required | Presence |\n';
+    output += '|-------|-------|----------|----------|\n';
+
+    collection.fields.forEach((field) => {
+      const types = (collection.types[field] || []).join(', ');
+      const required = collection.required?.includes(field) ? 'YES' : '';
+      const presence = collection.presence?.[field];
+      const presenceVal = presence === undefined ? '-' : `${Math.round(presence * 100)}%`;
+      output += `| ${field} | ${types} | ${required} | ${presenceVal} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatReferences(references: InferredReference[]): string {
+    let output = '#### Inferred References\n\n';
+    output += '| Field | References | Confidence | Evidence |\n';
+    output += '|-------|------------|------------|----------|\n';
+
+    references.forEach((ref) => {
+      const target = `${ref.referencedDatabase}.${ref.referencedCollection}`;
+      const link = `[${target}](#${anchor(ref.referencedDatabase, ref.referencedCollection)})`;
+      output += `| ${ref.field} | ${link}(${ref.referencedField}) | ${ref.confidence} | ${ref.evidence.join(', ')} |\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatRelationships(schema: MongoOutput): string {
+    const relationships = this.collectRelationships(schema);
+    if (relationships.length === 0) {
+      return '';
+    }
+
+    let output = '## Relationships\n\n';
+    relationships.forEach((relationship) => {
+      output += `- ${this.formatRelationship(relationship)}\n`;
+    });
+
+    return output + '\n';
+  }
+
+  private formatIndexes(indexes: CollectionIndex[]): string {
+    let output = '#### Indexes\n\n';
+    output += '| Name | Keys | Options |\n';
+    output += '|------|------|---------|\n';
+
+    indexes.forEach((idx) => {
+      const options = [
+        idx.unique ? 'unique' : null,
+        idx.sparse ? 'sparse' : null,
+        idx.expireAfterSeconds !== undefined ? `ttl ${idx.expireAfterSeconds}s` : null,
+        idx.partialFilterExpression
+          ? `partial ${JSON.stringify(idx.partialFilterExpression)}`
+          : null,
+      ].filter(Boolean);
+      output += `| ${idx.name || '-'} | ${JSON.stringify(idx.key)} | ${options.join(', ')} |\n`;
+    });
+
+    return output + '\n';
+  }
+}
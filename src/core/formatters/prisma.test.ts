@@ -0,0 +1,159 @@
+import type { ColumnDefinition, SchemaStats } from '../types';
+import { ValidationError } from '../../utils/errors';
+import { PrismaFormatter } from './prisma';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 1, details: { tables: 1 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'NO', default: null, constraints: null, ...extra };
+}
+
+function format(dbType: string, schema: unknown): string {
+  return new PrismaFormatter(dbType, { deterministic: true }).format(JSON.stringify(schema), stats);
+}
+
+function formatTable(dbType: string, columns: ColumnDefinition[]): string {
+  return format(dbType, { schemas: { main: { tables: { items: { columns } } } } });
+}
+
+// The line declaring one field of the `items` model
+function field(output: string, name: string): string {
+  return (new RegExp(`^ {2}${name} .*$`, 'm').exec(output) || [''])[0].trim().replace(/\s+/g, ' ');
+}
+
+describe('PrismaFormatter', () => {
+  it('writes the datasource and a model with relations', () => {
+    const output = format('POSTGRES', {
+      schemas: {
+        public: {
+          enums: { role: ['admin', 'read-only'] },
+          tables: {
+            users: {
+              columns: [
+                column('id', 'integer', {
+                  default: "nextval('users_id_seq'::regclass)",
+                  constraints: ['PRIMARY KEY'],
+                }),
+                column('email', 'character varying(255)', { constraints: ['UNIQUE'] }),
+                column('role', 'role', { default: "'admin'::role" }),
+              ],
+            },
+            posts: {
+              columns: [
+                column('id', 'integer', { constraints: ['PRIMARY KEY'] }),
+                column('user_id', 'integer'),
+              ],
+              foreignKeys: [
+                {
+                  name: 'posts_user_id_fkey',
+                  columns: ['user_id'],
+                  referencedSchema: 'public',
+                  referencedTable: 'users',
+                  referencedColumns: ['id'],
+                  onDelete: 'CASCADE',
+                  onUpdate: 'NO ACTION',
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain('datasource db {\n  provider = "postgresql"\n');
+    expect(output).toContain('enum role {\n  admin\n  read_only @map("read-only")\n}');
+    expect(field(output, 'id')).toBe('id Int @id @default(autoincrement())');
+    expect(field(output, 'email')).toBe('email String @unique @db.VarChar(255)');
+    expect(field(output, 'role')).toBe('role role @default(admin)');
+    expect(output).toMatch(/ {2}users +users +@relation\(fields: \[user_id\], references: \[id\]/);
+  });
+
+  it.each([
+    ['MYSQL', column('id', 'int', { default: 'auto_increment', constraints: ['PRIMARY KEY'] })],
+    ['MSSQL', column('id', 'int', { default: 'IDENTITY(1,1)', constraints: ['PRIMARY KEY'] })],
+    ['SQLITE', column('id', 'INTEGER', { constraints: ['PRIMARY KEY'] })],
+  ])('maps %s auto-incrementing keys to autoincrement()', (dbType, id) => {
+    expect(field(formatTable(dbType, [id]), 'id')).toBe('id Int @id @default(autoincrement())');
+  });
+
+  it('leaves other SQLite primary keys without a default', () => {
+    const output = formatTable('SQLITE', [column('id', 'TEXT', { constraints: ['PRIMARY KEY'] })]);
+
+    expect(field(output, 'id')).toBe('id String @id');
+  });
+
+  it('strips the parentheses SQL Server wraps defaults in', () => {
+    const output = formatTable('MSSQL', [
+      column('count', 'int', { default: '((0))' }),
+      column('active', 'bit', { default: '((1))' }),
+      column('status', 'nvarchar(20)', { default: "(N'open')" }),
+      column('created_at', 'datetime2', { default: '(getdate())' }),
+      column('total', 'int', { default: '((1)+(2))' }),
+    ]);
+
+    expect(field(output, 'count')).toBe('count Int @default(0)');
+    expect(field(output, 'active')).toBe('active Boolean @default(true)');
+    expect(field(output, 'status')).toBe('status String @default("open")');
+    expect(field(output, 'created_at')).toBe(
+      'created_at DateTime @default(dbgenerated("getdate()"))'
+    );
+    expect(field(output, 'total')).toBe('total Int @default(dbgenerated("(1)+(2)"))');
+  });
+
+  it('reads unquoted MySQL defaults on string columns as literals', () => {
+    const output = formatTable('MYSQL', [
+      column('status', "enum('active','closed')", { default: 'active' }),
+      column('code', 'varchar(10)', { default: '007' }),
+      column('token', 'varchar(36)', { default: 'uuid()' }),
+      column('enabled', 'tinyint(1)', { default: '0' }),
+    ]);
+
+    expect(field(output, 'status')).toBe('status String @default("active")');
+    expect(field(output, 'code')).toBe('code String @default("007")');
+    expect(field(output, 'token')).toBe('token String @default(dbgenerated("uuid()"))');
+    expect(field(output, 'enabled')).toBe('enabled Boolean @default(false)');
+  });
+
+  it('ignores tables without a primary key or unique constraint, as prisma db pull does', () => {
+    const output = format('POSTGRES', {
+      schemas: {
+        public: {
+          tables: {
+            users: { columns: [column('id', 'integer', { constraints: ['PRIMARY KEY'] })] },
+            audit_log: {
+              columns: [column('user_id', 'integer'), column('action', 'text')],
+              foreignKeys: [
+                {
+                  name: 'audit_log_user_id_fkey',
+                  columns: ['user_id'],
+                  referencedSchema: 'public',
+                  referencedTable: 'users',
+                  referencedColumns: ['id'],
+                  onDelete: 'NO ACTION',
+                  onUpdate: 'NO ACTION',
+                },
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain(
+      '/// The underlying table does not contain a valid unique identifier and can therefore ' +
+        'currently not be handled by Prisma Client.\nmodel audit_log {\n'
+    );
+    expect(output).toMatch(/ {2}@@ignore\n}/);
+    expect(field(output, 'audit_log')).toBe('audit_log audit_log[] @ignore');
+    expect(output).not.toMatch(/\/\/\/.*\nmodel users/);
+  });
+
+  it('refuses Oracle, which Prisma has no connector for', () => {
+    expect(() => new PrismaFormatter('ORACLE')).toThrow(ValidationError);
+    expect(() => new PrismaFormatter('oracle')).toThrow('Prisma does not support ORACLE databases');
+  });
+});
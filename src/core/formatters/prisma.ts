@@ -0,0 +1,819 @@
+import { BaseFormatter } from './base';
+import { ColumnDefinition, ForeignKeyDefinition, FormatterOptions, SchemaStats } from '../types';
+import { ValidationError } from '../../utils/errors';
+import {
+  CollectionShape,
+  FieldNode,
+  SchemaShape,
+  TableEntry,
+  enumEntries,
+  fieldTree,
+  fieldTypes,
+  isNullable,
+  isOptionalField,
+  isPrimaryKey,
+  isUnique,
+  parseIndex,
+  resolveUserType,
+  tableEntries,
+  typeName,
+} from './shapes';
+
+// Prisma has no Oracle connector, so Oracle connections cannot use this format
+const PROVIDERS: Record<string, string> = {
+  POSTGRES: 'postgresql',
+  MYSQL: 'mysql',
+  MSSQL: 'sqlserver',
+  SQLITE: 'sqlite',
+  MONGODB: 'mongodb',
+};
+
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  CASCADE: 'Cascade',
+  RESTRICT: 'Restrict',
+  'NO ACTION': 'NoAction',
+  'SET NULL': 'SetNull',
+  'SET DEFAULT': 'SetDefault',
+};
+
+// The comment `prisma db pull` writes above the models it ignores
+const KEYLESS_COMMENT =
+  '/// The underlying table does not contain a valid unique identifier and can therefore currently not be handled by Prisma Client.';
+
+const BSON_TYPES: Record<string, PrismaType> = {
+  string: { type: 'String' },
+  symbol: { type: 'String' },
+  javascript: { type: 'String' },
+  regex: { type: 'String' },
+  objectId: { type: 'String', native: '@db.ObjectId' },
+  int: { type: 'Int' },
+  long: { type: 'BigInt' },
+  double: { type: 'Float' },
+  decimal: { type: 'Decimal' },
+  bool: { type: 'Boolean' },
+  date: { type: 'DateTime' },
+  timestamp: { type: 'DateTime', native: '@db.Timestamp' },
+  binData: { type: 'Bytes' },
+};
+
+interface PrismaType {
+  type: string;
+  // Native database type attribute, e.g. `@db.VarChar(255)`
+  native?: string;
+  list?: boolean;
+}
+
+interface ModelField {
+  name: string;
+  type: string;
+  attributes: string[];
+}
+
+interface Model {
+  schema: string;
+  table: string;
+  name: string;
+  fields: ModelField[];
+  // Maps column names to field names, which differ when a column name is not a valid identifier
+  columns: Map<string, string>;
+  // Column sets that are guaranteed unique: the primary key and every unique constraint or index
+  uniqueSets: string[][];
+  blockAttributes: string[];
+  comments: string[];
+}
+
+/**
+ * Renders the schema as a Prisma schema file, as `prisma db pull` would: one model per table or
+ * collection, named after it, with relations derived from foreign keys. MongoDB embedded
+ * documents become composite types.
+ */
+export class PrismaFormatter extends BaseFormatter {
+  constructor(dbType: string = 'POSTGRES', options: FormatterOptions = {}) {
+    super(dbType, options);
+
+    if (!PROVIDERS[this.dbType]) {
+      throw new ValidationError(
+        `Prisma does not support ${this.dbType} databases, so the prisma format is unavailable`
+      );
+    }
+  }
+
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as SchemaShape;
+      const schemaNames = Object.keys(schema.schemas || {});
+      const multiSchema = !schema.databases && schemaNames.length > 1;
+      const blocks = schema.databases
+        ? this.formatDatabases(schema.databases)
+        : this.formatSchemas(schema, multiSchema);
+
+      return [
+        this.generateCommentHeader('//', stats),
+        formatClient(multiSchema),
+        this.formatDatasource(multiSchema ? schemaNames : []),
+        ...blocks,
+      ].join('\n');
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  private formatDatasource(schemas: string[]): string {
+    const lines = [
+      `  provider = ${JSON.stringify(PROVIDERS[this.dbType])}`,
+      '  url      = env("DATABASE_URL")',
+      schemas.length > 0
+        ? `  schemas  = [${schemas.map((s) => JSON.stringify(s)).join(', ')}]`
+        : '',
+    ].filter(Boolean);
+
+    return `datasource db {\n${lines.join('\n')}\n}\n`;
+  }
+
+  private formatSchemas(schema: SchemaShape, multiSchema: boolean): string[] {
+    const postgres = this.dbType.toUpperCase() === 'POSTGRES';
+    const entries = tableEntries(schema);
+    const enums = enumEntries(schema).filter(({ values }) => values.length > 0);
+
+    const enumNames = uniqueNames(enums.map(({ schema: s, name }) => [s, name]));
+    const modelNames = uniqueNames(entries.map(({ schema: s, name }) => [s, name]));
+    const enumName = (schemaName: string, name: string): string | undefined =>
+      enumNames.get(`${schemaName}.${name}`);
+
+    const models = new Map<string, Model>();
+    entries.forEach((entry) => {
+      const model = buildModel(entry, modelNames.get(`${entry.schema}.${entry.name}`) as string);
+      entry.table.columns?.forEach((col) => {
+        model.fields.push(this.formatColumn(col, entry, model, schema, { postgres, enumName }));
+      });
+      models.set(`${entry.schema}.${entry.name}`, model);
+    });
+
+    // Foreign keys between each pair of tables, in either direction
+    const pairCounts = new Map<string, number>();
+    entries.forEach(({ schema: schemaName, name, table }) => {
+      (table.foreignKeys || []).forEach((fk) => {
+        const target = models.get(`${fk.referencedSchema}.${fk.referencedTable}`);
+        if (target) {
+          const key = pairKey(models.get(`${schemaName}.${name}`) as Model, target);
+          pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+        }
+      });
+    });
+
+    entries.forEach(({ schema: schemaName, name, table }) => {
+      addRelations(
+        models.get(`${schemaName}.${name}`) as Model,
+        table.foreignKeys || [],
+        table.columns || [],
+        models,
+        pairCounts
+      );
+    });
+
+    const enumBlocks = enums.map(({ schema: schemaName, name, values }) => {
+      const lines = values.map((value) => {
+        const identifier = prismaName(value);
+        return identifier === value
+          ? `  ${value}`
+          : `  ${identifier} @map(${JSON.stringify(value)})`;
+      });
+      const attributes = [
+        ...(enumName(schemaName, name) !== name ? [`@@map(${JSON.stringify(name)})`] : []),
+        ...(multiSchema ? [`@@schema(${JSON.stringify(schemaName)})`] : []),
+      ];
+      if (attributes.length > 0) {
+        lines.push('', ...attributes.map((attr) => `  ${attr}`));
+      }
+      return `enum ${enumName(schemaName, name)} {\n${lines.join('\n')}\n}\n`;
+    });
+
+    const modelBlocks = Array.from(models.values()).map((model) => {
+      if (model.name !== model.table) {
+        model.blockAttributes.push(`@@map(${JSON.stringify(model.table)})`);
+      }
+      if (multiSchema) {
+        model.blockAttributes.push(`@@schema(${JSON.stringify(model.schema)})`);
+      }
+      // Prisma Client needs a unique identifier for every row, so `prisma db pull` ignores
+      // tables without one
+      if (isKeyless(model)) {
+        model.blockAttributes.push('@@ignore');
+        return `${KEYLESS_COMMENT}\n${renderModel(model)}`;
+      }
+      return renderModel(model);
+    });
+
+    return [...enumBlocks, ...modelBlocks];
+  }
+
+  private formatColumn(
+    col: ColumnDefinition,
+    { schema: schemaName }: TableEntry,
+    model: Model,
+    schema: SchemaShape,
+    context: {
+      postgres: boolean;
+      enumName: (schemaName: string, name: string) => string | undefined;
+    }
+  ): ModelField {
+    const name = model.columns.get(col.column) as string;
+    const resolved = columnType(col.type, schemaName, schema, context);
+    const primaryKey = model.uniqueSets[0] || [];
+    const attributes: string[] = [];
+
+    if (primaryKey.length === 1 && primaryKey[0] === col.column) {
+      attributes.push('@id');
+    } else if (model.uniqueSets.slice(1).some((set) => set.length === 1 && set[0] === col.column)) {
+      attributes.push('@unique');
+    }
+
+    // An INTEGER PRIMARY KEY in SQLite is an alias for the rowid, which is assigned on insert
+    const rowid =
+      this.dbType === 'SQLITE' &&
+      primaryKey.length === 1 &&
+      primaryKey[0] === col.column &&
+      col.type.trim().toUpperCase() === 'INTEGER';
+    const defaultValue =
+      col.default !== null && col.default !== undefined
+        ? prismaDefault(col.default, resolved, this.dbType, schemaName, schema, context.enumName)
+        : rowid
+          ? 'autoincrement()'
+          : null;
+    if (defaultValue) {
+      attributes.push(`@default(${defaultValue})`);
+    }
+    if (name !== col.column) {
+      attributes.push(`@map(${JSON.stringify(col.column)})`);
+    }
+    if (resolved.native) {
+      attributes.push(resolved.native);
+    }
+
+    // Prisma has no optional lists; a NULL array reads as an empty one
+    const modifier = resolved.list ? '[]' : isNullable(col) ? '?' : '';
+    return { name, type: `${resolved.type}${modifier}`, attributes };
+  }
+
+  private formatDatabases(databases: NonNullable<SchemaShape['databases']>): string[] {
+    const collections = Object.entries(databases).flatMap(([databaseName, { collections }]) =>
+      (collections || [])
+        .filter(({ type }) => type !== 'view')
+        .map((coll) => ({ databaseName, coll }))
+    );
+    const modelNames = uniqueNames(
+      collections.map(({ databaseName, coll }) => [databaseName, coll.collection])
+    );
+
+    return collections.flatMap(({ databaseName, coll }) => {
+      const modelName = modelNames.get(`${databaseName}.${coll.collection}`) as string;
+      const types: string[] = [];
+      const model = formatCollection(coll, modelName, types);
+      if (modelName !== coll.collection) {
+        model.blockAttributes.push(`@@map(${JSON.stringify(coll.collection)})`);
+      }
+      return [renderModel(model), ...types];
+    });
+  }
+}
+
+function formatClient(multiSchema: boolean): string {
+  const lines = [
+    `  provider${multiSchema ? '       ' : ''} = "prisma-client-js"`,
+    multiSchema ? '  previewFeatures = ["multiSchema"]' : '',
+  ].filter(Boolean);
+
+  return `generator client {\n${lines.join('\n')}\n}\n`;
+}
+
+/**
+ * Give each object a valid Prisma name. Names that clash across schemas are prefixed with their
+ * schema, e.g. `public_users` and `audit_users` for `public.users` and `audit.users`.
+ */
+function uniqueNames(objects: Array<[string, string]>): Map<string, string> {
+  const counts = new Map<string, number>();
+  objects.forEach(([, name]) =>
+    counts.set(prismaName(name), (counts.get(prismaName(name)) || 0) + 1)
+  );
+
+  return new Map(
+    objects.map(([schemaName, name]) => [
+      `${schemaName}.${name}`,
+      (counts.get(prismaName(name)) || 0) > 1
+        ? prismaName(`${schemaName}_${name}`)
+        : prismaName(name),
+    ])
+  );
+}
+
+// Prisma names start with a letter and hold only letters, digits and underscores
+function prismaName(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^_+/, '');
+  if (!cleaned) {
+    return 'field';
+  }
+  return /^[A-Za-z]/.test(cleaned) ? cleaned : `n${cleaned}`;
+}
+
+function buildModel({ schema: schemaName, name, table }: TableEntry, modelName: string): Model {
+  const columns = table.columns || [];
+  const columnNames = new Map(columns.map((col) => [col.column, prismaName(col.column)]));
+  const constraints = table.constraints || [];
+
+  const primaryKey =
+    constraints.find(({ type }) => type === 'PRIMARY KEY')?.columns ||
+    columns.filter(isPrimaryKey).map((col) => col.column);
+
+  const uniques: Array<{ name?: string; columns: string[] }> = constraints
+    .filter(({ type }) => type === 'UNIQUE')
+    .map(({ name: constraintName, columns: uniqueColumns }) => ({
+      name: constraintName,
+      columns: uniqueColumns,
+    }));
+  const indexes: Array<{ name: string; columns: string[] }> = [];
+  const comments: string[] = [];
+
+  (table.indexes || []).forEach((idx) => {
+    const parsed = parseIndex(idx.definition);
+    if (!parsed || parsed.primary || parsed.columns.length === 0) {
+      return;
+    }
+    // Quoted names with spaces or capitals are left quoted by parseIndex
+    const indexColumns = parsed.columns.map((column) => column.replace(/^"(.*)"$/, '$1'));
+    if (indexColumns.some((column) => !columnNames.has(column))) {
+      comments.push(
+        `// Index ${JSON.stringify(idx.name)} uses expressions Prisma cannot represent`
+      );
+      return;
+    }
+    (parsed.unique ? uniques : indexes).push({ name: idx.name, columns: indexColumns });
+  });
+
+  // Analyzers without table-level constraints only mark unique columns
+  if (!table.constraints) {
+    columns
+      .filter((col) => isUnique(col) && !uniques.some((u) => u.columns.includes(col.column)))
+      .forEach((col) => uniques.push({ columns: [col.column] }));
+  }
+
+  // Unique constraints are backed by an index of the same columns, and so is the primary key
+  const seen = new Set([primaryKey.join(',')]);
+  const uniqueSets = uniques.filter(({ columns: set }) => {
+    const key = set.join(',');
+    return seen.has(key) ? false : (seen.add(key), true);
+  });
+
+  const fieldList = (set: string[]): string =>
+    `[${set.map((column) => columnNames.get(column)).join(', ')}]`;
+  const blockAttributes = [
+    ...(primaryKey.length > 1 ? [`@@id(${fieldList(primaryKey)})`] : []),
+    ...uniqueSets
+      .filter(({ columns: set }) => set.length > 1)
+      .map(({ name: indexName, columns: set }) =>
+        indexName
+          ? `@@unique(${fieldList(set)}, map: ${JSON.stringify(indexName)})`
+          : `@@unique(${fieldList(set)})`
+      ),
+    ...indexes.map(
+      ({ name: indexName, columns: set }) =>
+        `@@index(${fieldList(set)}, map: ${JSON.stringify(indexName)})`
+    ),
+  ];
+
+  return {
+    schema: schemaName,
+    table: name,
+    name: modelName,
+    fields: [],
+    columns: columnNames,
+    uniqueSets: [primaryKey, ...uniqueSets.map(({ columns: set }) => set)],
+    blockAttributes,
+    comments,
+  };
+}
+
+/**
+ * Add a relation field on both sides of each foreign key. Relations are named after the
+ * constraint when Prisma needs a name to tell them apart: self relations and several foreign
+ * keys between the same two tables. Foreign keys to tables outside the output are left out.
+ */
+function addRelations(
+  model: Model,
+  foreignKeys: ForeignKeyDefinition[],
+  columns: ColumnDefinition[],
+  models: Map<string, Model>,
+  pairCounts: Map<string, number>
+): void {
+  foreignKeys.forEach((fk) => {
+    const target = models.get(`${fk.referencedSchema}.${fk.referencedTable}`);
+    if (!target) {
+      return;
+    }
+
+    const needsName = target === model || (pairCounts.get(pairKey(model, target)) || 0) > 1;
+    const relationName = needsName ? fk.name || `${model.name}_${fk.columns.join('_')}` : undefined;
+
+    const optional = fk.columns.some((column) =>
+      columns.some((col) => col.column === column && isNullable(col))
+    );
+    const actions = [
+      REFERENTIAL_ACTIONS[fk.onDelete] ? `onDelete: ${REFERENTIAL_ACTIONS[fk.onDelete]}` : null,
+      REFERENTIAL_ACTIONS[fk.onUpdate] ? `onUpdate: ${REFERENTIAL_ACTIONS[fk.onUpdate]}` : null,
+    ].filter(Boolean);
+    const relation = [
+      relationName ? JSON.stringify(relationName) : null,
+      `fields: [${fk.columns.map((column) => model.columns.get(column) || prismaName(column)).join(', ')}]`,
+      `references: [${fk.referencedColumns.map((column) => target.columns.get(column) || prismaName(column)).join(', ')}]`,
+      ...actions,
+      fk.name ? `map: ${JSON.stringify(fk.name)}` : null,
+    ].filter(Boolean);
+
+    model.fields.push({
+      name: fieldName(model, relationName ? `${target.name}_${fk.columns.join('_')}` : target.name),
+      type: `${target.name}${optional ? '?' : ''}`,
+      attributes: [`@relation(${relation.join(', ')})`],
+    });
+
+    // The referencing side holds at most one row when its key columns are unique
+    const oneToOne = model.uniqueSets.some((set) => set.join(',') === fk.columns.join(','));
+    // Relation fields to an ignored model have to be ignored as well
+    target.fields.push({
+      name: fieldName(target, relationName ? `${model.name}_${relationName}` : model.name),
+      type: `${model.name}${oneToOne ? '?' : '[]'}`,
+      attributes: [
+        ...(relationName ? [`@relation(${JSON.stringify(relationName)})`] : []),
+        ...(isKeyless(model) ? ['@ignore'] : []),
+      ],
+    });
+  });
+}
+
+function isKeyless(model: Model): boolean {
+  return model.uniqueSets.every((set) => set.length === 0);
+}
+
+function pairKey(a: Model, b: Model): string {
+  return [`${a.schema}.${a.table}`, `${b.schema}.${b.table}`].sort().join('|');
+}
+
+function fieldName(model: Model, base: string): string {
+  let name = prismaName(base);
+  while (model.fields.some((field) => field.name === name)) {
+    name = `${name}_`;
+  }
+  return name;
+}
+
+/**
+ * Map a column type to a Prisma scalar. Native type attributes are only written for Postgres,
+ * and types Prisma has no scalar for become `Unsupported`.
+ */
+function columnType(
+  type: string,
+  schemaName: string,
+  schema: SchemaShape,
+  context: {
+    postgres: boolean;
+    enumName: (schemaName: string, name: string) => string | undefined;
+  }
+): PrismaType {
+  if (type.endsWith('[]')) {
+    const element = columnType(type.slice(0, -2), schemaName, schema, context);
+    return element.type.startsWith('Unsupported')
+      ? { type: `Unsupported(${JSON.stringify(type)})` }
+      : { ...element, list: true };
+  }
+
+  const userType = resolveUserType(type, schemaName, schema);
+  if (userType?.kind === 'domain') {
+    return columnType(userType.type, userType.schema, schema, context);
+  }
+  if (userType?.kind === 'enum' && context.enumName(userType.schema, userType.name)) {
+    return { type: context.enumName(userType.schema, userType.name) as string };
+  }
+  if (userType) {
+    return { type: `Unsupported(${JSON.stringify(type)})` };
+  }
+
+  const lower = type.toLowerCase().trim();
+  const [, base = '', params] = /^([a-z][\w ]*)(?:\(([^)]*)\))?/.exec(lower) || [];
+  const word = base.trim().split(' ')[0];
+  const args = (params || '')
+    .split(',')
+    .map((arg) => arg.trim())
+    .filter(Boolean);
+  const native = (attribute: string): string | undefined =>
+    context.postgres ? `@db.${attribute}` : undefined;
+  // Postgres reports the precision of time types after the name, e.g. `timestamp(3) with time zone`
+  const precision = args[0] || '6';
+  const withTimeZone = lower.includes('with time zone');
+
+  // A single bit is SQL Server's and MySQL's boolean; Postgres bit strings are handled below
+  if (
+    /^(bool|boolean)$/.test(word) ||
+    lower === 'tinyint(1)' ||
+    (!context.postgres && /^bit(\(1\))?$/.test(lower))
+  ) {
+    return { type: 'Boolean' };
+  }
+  if (/^(smallint|int2|smallserial)$/.test(word)) {
+    return { type: 'Int', native: native('SmallInt') };
+  }
+  if (/^(integer|int|int4|serial|mediumint|tinyint)$/.test(word)) {
+    return { type: 'Int' };
+  }
+  if (/^(bigint|int8|bigserial)$/.test(word)) {
+    return { type: 'BigInt' };
+  }
+  if (word === 'money') {
+    return { type: 'Decimal', native: native('Money') };
+  }
+  if (/^(numeric|decimal|number)$/.test(word)) {
+    return {
+      type: 'Decimal',
+      native: args.length > 0 ? native(`Decimal(${args.join(', ')})`) : undefined,
+    };
+  }
+  if (/^(real|float4)$/.test(word)) {
+    return { type: 'Float', native: native('Real') };
+  }
+  if (/^(float|float8|double)$/.test(word)) {
+    return { type: 'Float' };
+  }
+  if (/^timestamp/.test(word)) {
+    // timestamp(3) is Prisma's own default for DateTime
+    if (withTimeZone) {
+      return { type: 'DateTime', native: native(`Timestamptz(${precision})`) };
+    }
+    return {
+      type: 'DateTime',
+      native: precision === '3' ? undefined : native(`Timestamp(${precision})`),
+    };
+  }
+  if (/^(datetime|datetime2|smalldatetime|datetimeoffset)$/.test(word)) {
+    return { type: 'DateTime' };
+  }
+  if (word === 'date') {
+    return { type: 'DateTime', native: native('Date') };
+  }
+  if (word === 'time') {
+    return {
+      type: 'DateTime',
+      native: native(`${withTimeZone ? 'Timetz' : 'Time'}(${precision})`),
+    };
+  }
+  if (word === 'json') {
+    return { type: 'Json', native: native('Json') };
+  }
+  if (word === 'jsonb') {
+    return { type: 'Json' };
+  }
+  if (/^(bytea|blob|longblob|mediumblob|tinyblob|binary|varbinary|image)$/.test(word)) {
+    return { type: 'Bytes' };
+  }
+  if (/^(character varying|varchar)$/.test(base.trim())) {
+    return { type: 'String', native: native(args.length > 0 ? `VarChar(${args[0]})` : 'VarChar') };
+  }
+  if (/^(character|char)$/.test(base.trim())) {
+    return { type: 'String', native: native(`Char(${args[0] || '1'})`) };
+  }
+  if (/^bit varying$/.test(base.trim())) {
+    return { type: 'String', native: native(args.length > 0 ? `VarBit(${args[0]})` : 'VarBit') };
+  }
+  if (word === 'bit') {
+    return { type: 'String', native: native(`Bit(${args[0] || '1'})`) };
+  }
+  if (word === 'uuid') {
+    return { type: 'String', native: native('Uuid') };
+  }
+  if (word === 'citext' || word === 'inet' || word === 'xml') {
+    return { type: 'String', native: native(word[0].toUpperCase() + word.slice(1)) };
+  }
+  if (word === 'oid') {
+    return { type: 'Int', native: native('Oid') };
+  }
+  if (
+    /^(text|ntext|tinytext|mediumtext|longtext|nchar|nvarchar|varchar2|nvarchar2|clob|nclob|uniqueidentifier|enum|set)$/.test(
+      word
+    )
+  ) {
+    return { type: 'String' };
+  }
+
+  return { type: `Unsupported(${JSON.stringify(type)})` };
+}
+
+/**
+ * Translate a column default to a Prisma `@default` argument. Sequences, MySQL AUTO_INCREMENT
+ * and SQL Server IDENTITY columns become `autoincrement()`, the current time `now()`, literals
+ * Prisma values, and any other expression `dbgenerated(...)` so it is still created by the
+ * database.
+ */
+function prismaDefault(
+  value: string,
+  field: PrismaType,
+  dbType: string,
+  schemaName: string,
+  schema: SchemaShape,
+  enumName: (schemaName: string, name: string) => string | undefined
+): string | null {
+  // SQL Server wraps defaults in parentheses, e.g. ((0)) or ('active')
+  const trimmed = unwrapParentheses(value.trim());
+
+  if (/^(nextval\(|identity\(|auto_increment$)/i.test(trimmed)) {
+    return 'autoincrement()';
+  }
+  if (/^(now\(\)|current_timestamp(\(\d*\))?)$/i.test(trimmed)) {
+    return 'now()';
+  }
+  if (/^null(::.*)?$/i.test(trimmed) || field.type.startsWith('Unsupported') || field.list) {
+    return null;
+  }
+  // MySQL reports string defaults unquoted; expression defaults look like function calls
+  if (dbType === 'MYSQL' && field.type === 'String' && !/^[\w.]+\(.*\)$/.test(trimmed)) {
+    return JSON.stringify(trimmed);
+  }
+  // MySQL and SQLite booleans are integers
+  if (field.type === 'Boolean' && /^[01]$/.test(trimmed)) {
+    return trimmed === '1' ? 'true' : 'false';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(trimmed) || /^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+
+  // Postgres casts its literals, e.g. 'active'::status, and SQL Server prefixes Unicode ones
+  const literal = /^N?'((?:[^']|'')*)'(?:::([\w\s."[\]]+))?$/.exec(trimmed);
+  if (literal) {
+    const text = literal[1].replace(/''/g, "'");
+    const userType = literal[2] ? resolveUserType(literal[2], schemaName, schema) : null;
+
+    if (userType?.kind === 'enum' && enumName(userType.schema, userType.name)) {
+      return prismaName(text);
+    }
+    if (
+      ['Int', 'BigInt', 'Float', 'Decimal'].includes(field.type) &&
+      /^-?\d+(\.\d+)?$/.test(text)
+    ) {
+      return text;
+    }
+    if (field.type === 'Boolean' && /^(true|false)$/i.test(text)) {
+      return text.toLowerCase();
+    }
+    if (['String', 'Json', 'DateTime'].includes(field.type)) {
+      return JSON.stringify(text);
+    }
+  }
+
+  return `dbgenerated(${JSON.stringify(trimmed)})`;
+}
+
+// Remove parentheses around the whole value, but not those of `(a) + (b)`
+function unwrapParentheses(value: string): string {
+  let unwrapped = value;
+  while (unwrapped.startsWith('(') && unwrapped.endsWith(')')) {
+    let depth = 0;
+    const closesEarly = Array.from(unwrapped.slice(0, -1)).some((char) => {
+      depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+      return depth === 0;
+    });
+    if (closesEarly) {
+      break;
+    }
+    unwrapped = unwrapped.slice(1, -1).trim();
+  }
+  return unwrapped;
+}
+
+/**
+ * Build a model for a collection. `_id` becomes `id`, as in Prisma's own MongoDB schemas, and
+ * embedded documents become composite types, which are added to `types`.
+ */
+function formatCollection(coll: CollectionShape, modelName: string, types: string[]): Model {
+  const root = fieldTree(coll);
+  const fields = documentFields(root, coll, typeName(modelName), types, true);
+  const columns = new Map(fields.map((field) => [field.column, field.name]));
+
+  const blockAttributes: string[] = [];
+  (coll.indexes || [])
+    .filter(({ name }) => name !== '_id_')
+    .forEach((idx) => {
+      const keys = Object.keys(idx.key).map((key) =>
+        key
+          .split('.')
+          .map((part, i) => (i === 0 ? columns.get(part) || prismaName(part) : prismaName(part)))
+          .join('.')
+      );
+      const field = fields.find((f) => keys.length === 1 && f.name === keys[0]);
+      if (idx.unique && field && !field.attributes.includes('@id')) {
+        field.attributes.splice(0, 0, '@unique');
+        return;
+      }
+      const map = idx.name ? `, map: ${JSON.stringify(idx.name)}` : '';
+      blockAttributes.push(`${idx.unique ? '@@unique' : '@@index'}([${keys.join(', ')}]${map})`);
+    });
+
+  // MongoDB has no foreign keys, so inferred references are noted rather than declared
+  const comments = (coll.references || []).map(
+    (ref) =>
+      `// Inferred reference: ${ref.field} -> ${ref.referencedCollection}.${ref.referencedField} (confidence ${ref.confidence})`
+  );
+
+  return {
+    schema: '',
+    table: coll.collection,
+    name: modelName,
+    fields,
+    columns,
+    uniqueSets: [],
+    blockAttributes,
+    comments,
+  };
+}
+
+function documentFields(
+  node: FieldNode,
+  coll: CollectionShape,
+  typePrefix: string,
+  types: string[],
+  topLevel: boolean
+): Array<ModelField & { column: string }> {
+  return Array.from(node.properties.entries()).map(([column, child]) => {
+    const isId = topLevel && column === '_id';
+    const name = prismaName(column);
+    const resolved = documentType(child, coll, `${typePrefix}${typeName(column)}`, types);
+    const optional =
+      !isId && !resolved.list && (isOptionalField(coll, node, child) || resolved.nullable);
+
+    const attributes = [
+      ...(isId ? ['@id'] : []),
+      ...(isId && resolved.native === '@db.ObjectId' ? ['@default(auto())'] : []),
+      ...(name !== column ? [`@map(${JSON.stringify(column)})`] : []),
+      ...(resolved.native ? [resolved.native] : []),
+    ];
+
+    return {
+      column,
+      name,
+      type: `${resolved.type}${resolved.list ? '[]' : optional ? '?' : ''}`,
+      attributes,
+    };
+  });
+}
+
+// Fields that hold several types, or arrays of arrays, fall back to Json
+function documentType(
+  node: FieldNode,
+  coll: CollectionShape,
+  compositeName: string,
+  types: string[]
+): PrismaType & { nullable: boolean } {
+  const all = fieldTypes(node);
+  const present = all.filter((type) => type !== 'null' && type !== 'undefined');
+  const nullable = present.length < all.length;
+
+  if (present.length !== 1) {
+    return { type: 'Json', nullable };
+  }
+
+  const [type] = present;
+  if (type === 'object') {
+    if (node.properties.size === 0) {
+      return { type: 'Json', nullable };
+    }
+    const fields = documentFields(node, coll, compositeName, types, false);
+    types.push(renderBlock('type', compositeName, fields, []));
+    return { type: compositeName, nullable };
+  }
+  if (type === 'array') {
+    const element = node.items ? documentType(node.items, coll, compositeName, types) : null;
+    return element && !element.list && element.type !== 'Json' && !element.nullable
+      ? { ...element, list: true, nullable }
+      : { type: 'Json', nullable };
+  }
+
+  return { ...(BSON_TYPES[type] || { type: 'Json' }), nullable };
+}
+
+function renderModel(model: Model): string {
+  return renderBlock('model', model.name, model.fields, [
+    ...model.comments,
+    ...model.blockAttributes,
+  ]);
+}
+
+// Columns are aligned the way `prisma format` aligns them
+function renderBlock(kind: string, name: string, fields: ModelField[], footer: string[]): string {
+  const nameWidth = Math.max(0, ...fields.map((field) => field.name.length));
+  const typeWidth = Math.max(0, ...fields.map((field) => field.type.length));
+
+  const lines = fields.map((field) =>
+    field.attributes.length > 0
+      ? `  ${field.name.padEnd(nameWidth)} ${field.type.padEnd(typeWidth)} ${field.attributes.join(' ')}`
+      : `  ${field.name.padEnd(nameWidth)} ${field.type}`
+  );
+  if (footer.length > 0) {
+    lines.push('', ...footer.map((line) => `  ${line}`));
+  }
+
+  return `${kind} ${name} {\n${lines.join('\n')}\n}\n`;
+}
@@ -1,9 +1,25 @@
-import { BaseFormatter } from './base';
+import { BaseFormatter, type RelationalOutput } from './base';
 import { SchemaStats } from '../types';
 
 export class RawFormatter extends BaseFormatter {
   format(schema: string, stats: SchemaStats): string {
-    const header = this.generateHeader('POSTGRES', stats);
-    return header + JSON.stringify(JSON.parse(schema), null, 2);
+    const header = this.generateHeader(stats);
+    const parsed = JSON.parse(schema);
+    return header + JSON.stringify(parsed, null, 2) + this.formatRelationships(parsed);
   }
-}
\ No newline at end of file
+
+  private formatRelationships(schema: RelationalOutput): string {
+    const relationships = this.collectRelationships(schema);
+    if (relationships.length === 0) {
+      return '';
+    }
+
+    return `
+
+================================================================
+Relationships
+================================================================
+${relationships.map((relationship) => this.formatRelationship(relationship)).join('\n')}
+`;
+  }
+}
@@ -0,0 +1,251 @@
+import type {
+  ColumnDefinition,
+  ForeignKeyDefinition,
+  InferredReference,
+  TableConstraint,
+  TableIndex,
+} from '../types';
+
+/**
+ * The parts of analyzer output that the code-generating formatters (DBML, Mermaid, TypeScript,
+ * Zod and Prisma) read. Relational analyzers group tables under `schemas`; the MongoDB analyzer
+ * groups collections under `databases`.
+ */
+export interface TableShape {
+  description?: string | null;
+  columns?: ColumnDefinition[];
+  indexes?: TableIndex[];
+  foreignKeys?: ForeignKeyDefinition[];
+  constraints?: TableConstraint[];
+}
+
+export interface CollectionShape {
+  collection: string;
+  type?: string;
+  fieldSource?: 'validator' | 'sample';
+  fields: string[];
+  types: Record<string, string[]>;
+  presence?: Record<string, number>;
+  required?: string[];
+  indexes?: Array<{ name?: string; key: Record<string, unknown>; unique?: boolean }>;
+  references?: InferredReference[];
+}
+
+export interface SchemaShape {
+  schemas?: Record<
+    string,
+    {
+      tables?: Record<string, TableShape> | null;
+      enums?: Record<string, string[]> | null;
+      domains?: Record<string, { type: string; nullable: string }> | null;
+      compositeTypes?: Record<string, Array<{ column: string; type: string }>> | null;
+    } | null
+  > | null;
+  databases?: Record<string, { collections?: CollectionShape[] }> | null;
+}
+
+export interface TableEntry {
+  schema: string;
+  name: string;
+  table: TableShape;
+}
+
+export interface ParsedIndex {
+  // Plain column names, or SQL expressions for expression indexes
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+}
+
+export function tableEntries(shape: SchemaShape): TableEntry[] {
+  return Object.entries(shape.schemas || {}).flatMap(([schema, schemaData]) =>
+    Object.entries(schemaData?.tables || {}).map(([name, table]) => ({ schema, name, table }))
+  );
+}
+
+export function enumEntries(
+  shape: SchemaShape
+): Array<{ schema: string; name: string; values: string[] }> {
+  return Object.entries(shape.schemas || {}).flatMap(([schema, schemaData]) =>
+    Object.entries(schemaData?.enums || {}).map(([name, values]) => ({ schema, name, values }))
+  );
+}
+
+export function isPrimaryKey(column: ColumnDefinition): boolean {
+  return (column.constraints || []).includes('PRIMARY KEY');
+}
+
+// MySQL reports unique indexes on a column as `UNIQUE INDEX`
+export function isUnique(column: ColumnDefinition): boolean {
+  return (column.constraints || []).some((constraint) => constraint.startsWith('UNIQUE'));
+}
+
+export function isNullable(column: ColumnDefinition): boolean {
+  return String(column.nullable).toUpperCase() === 'YES';
+}
+
+/**
+ * Read the key columns back out of an index definition. Each analyzer writes definitions in its
+ * database's own syntax, but they all list the keys in the first parentheses after `ON`, or after
+ * `PRIMARY KEY` for SQL Server primary keys.
+ */
+export function parseIndex(definition: string): ParsedIndex | null {
+  const anchor = /\bON\b|\bPRIMARY KEY\b/i.exec(definition);
+  const start = definition.indexOf('(', anchor ? anchor.index : 0);
+  if (start === -1) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = start + 1; i < definition.length; i++) {
+    const char = definition[i];
+    if (char === '(') depth++;
+    if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    }
+
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return {
+    columns: parts.map(normalizeIndexPart).filter(Boolean),
+    unique: /\bUNIQUE\b/i.test(definition) || /\bPRIMARY KEY\b/i.test(definition),
+    primary: /\bPRIMARY KEY\b/i.test(definition),
+  };
+}
+
+function normalizeIndexPart(part: string): string {
+  const trimmed = part
+    .trim()
+    .replace(/\s+(ASC|DESC)$/i, '')
+    .replace(/\s+NULLS\s+(FIRST|LAST)$/i, '');
+  const unquoted = trimmed.replace(/^["`[](.*)["`\]]$/, '$1');
+
+  return /^[\w$]+$/.test(unquoted) ? unquoted : trimmed;
+}
+
+// A MongoDB field path split into nested properties and array elements
+export interface FieldNode {
+  path: string;
+  types: string[];
+  properties: Map<string, FieldNode>;
+  items?: FieldNode;
+}
+
+/**
+ * Nest a collection's dotted field paths (`address.city`, `items[].sku`) into a tree, so each
+ * embedded document becomes an object type and each array an array type.
+ */
+export function fieldTree(coll: CollectionShape): FieldNode {
+  const root: FieldNode = { path: '', types: ['object'], properties: new Map() };
+
+  coll.fields.forEach((path) => {
+    let node = root;
+    path.split('.').forEach((part) => {
+      const [, name, brackets] = /^(.*?)((?:\[\])*)$/.exec(part) as RegExpExecArray;
+      const parentPath = node.path;
+
+      if (!node.properties.has(name)) {
+        const childPath = parentPath ? `${parentPath}.${name}` : name;
+        node.properties.set(name, { path: childPath, types: [], properties: new Map() });
+      }
+      node = node.properties.get(name) as FieldNode;
+
+      for (let i = 0; i < brackets.length / 2; i++) {
+        node.items = node.items || { path: `${node.path}[]`, types: [], properties: new Map() };
+        node = node.items;
+      }
+    });
+    node.types = coll.types[path] || [];
+  });
+
+  return root;
+}
+
+// Paths only seen through their children have no types of their own
+export function fieldTypes(node: FieldNode): string[] {
+  if (node.types.length > 0) {
+    return node.types;
+  }
+  return [node.properties.size > 0 ? 'object' : node.items ? 'array' : 'unknown'];
+}
+
+/**
+ * A field is optional when the validator does not require it or, for sampled collections, when
+ * it is missing from some of the documents that contain its parent.
+ */
+export function isOptionalField(
+  coll: CollectionShape,
+  parent: FieldNode,
+  child: FieldNode
+): boolean {
+  if (coll.fieldSource === 'validator') {
+    return !(coll.required || []).includes(child.path);
+  }
+
+  const parentPresence = parent.path ? (coll.presence?.[parent.path] ?? 1) : 1;
+  return (coll.presence?.[child.path] ?? 1) < parentPresence;
+}
+
+export type UserType =
+  | { kind: 'enum'; schema: string; name: string; values: string[] }
+  | { kind: 'composite'; schema: string; name: string }
+  | { kind: 'domain'; schema: string; name: string; type: string };
+
+/**
+ * Find the enum, composite type or domain a column type names. Postgres qualifies the type with
+ * its schema only when that schema is not on the search path, so unqualified names are looked up
+ * in the column's own schema first and then in every other schema.
+ */
+export function resolveUserType(
+  type: string,
+  schemaName: string,
+  shape: SchemaShape
+): UserType | null {
+  const qualified = /^"?([^".]+)"?\.("?)(.+)\2$/.exec(type);
+  const name = qualified ? qualified[3] : type.replace(/^"(.*)"$/, '$1');
+  const candidates = [qualified ? qualified[1] : schemaName, ...Object.keys(shape.schemas || {})];
+
+  for (const schema of candidates) {
+    const schemaData = shape.schemas?.[schema];
+    if (schemaData?.enums?.[name]) {
+      return { kind: 'enum', schema, name, values: schemaData.enums[name] };
+    }
+    if (schemaData?.compositeTypes?.[name]) {
+      return { kind: 'composite', schema, name };
+    }
+    if (schemaData?.domains?.[name]) {
+      return { kind: 'domain', schema, name, type: schemaData.domains[name].type };
+    }
+  }
+
+  return null;
+}
+
+// PascalCase, so `order_items` becomes `OrderItems`
+export function typeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `_${pascal}`;
+}
+
+export function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+export function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
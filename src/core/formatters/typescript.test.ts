@@ -0,0 +1,190 @@
+import type { ColumnDefinition, SchemaStats } from '../types';
+import { TypeScriptFormatter } from './typescript';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 1, details: { tables: 1 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'NO', default: null, constraints: null, ...extra };
+}
+
+function format(schema: unknown, dbType = 'POSTGRES'): string {
+  return new TypeScriptFormatter(dbType, { deterministic: true }).format(
+    JSON.stringify(schema),
+    stats
+  );
+}
+
+describe('TypeScriptFormatter', () => {
+  it('declares a namespace per schema with an interface per table', () => {
+    const output = format({
+      schemas: {
+        public: {
+          tables: {
+            order_items: {
+              description: 'One line of an order',
+              columns: [
+                column('id', 'bigint'),
+                column('quantity', 'integer'),
+                column('price', 'numeric(10,2)'),
+                column('is_gift', 'boolean'),
+                column('created_at', 'timestamp with time zone'),
+                column('note', 'text', { nullable: 'YES', description: 'Shown on the invoice' }),
+                column('tags', 'text[]'),
+                column('payload', 'jsonb', { nullable: 'YES' }),
+                column('shipping-code', 'uuid'),
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain('// Generated by Schiba\n');
+    expect(output).toContain(
+      [
+        'export namespace Public {',
+        '  /** One line of an order */',
+        '  export interface OrderItems {',
+        '    id: string;',
+        '    quantity: number;',
+        '    price: string;',
+        '    is_gift: boolean;',
+        '    created_at: Date;',
+        '    /** Shown on the invoice */',
+        '    note: string | null;',
+        '    tags: string[];',
+        '    payload: unknown | null;',
+        '    "shipping-code": string;',
+        '  }',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('refers to enums, composite types and domains across schemas', () => {
+    const output = format({
+      schemas: {
+        public: {
+          enums: { status: ['active', 'closed'] },
+          domains: { email: { type: 'text', nullable: 'NO' } },
+          compositeTypes: { address: [column('city', 'text')] },
+          tables: {
+            users: {
+              columns: [
+                column('status', 'status'),
+                column('email', 'email'),
+                column('home', 'address', { nullable: 'YES' }),
+              ],
+            },
+          },
+        },
+        sales: {
+          tables: {
+            deals: {
+              columns: [column('status', 'public.status'), column('history', 'status[]')],
+            },
+          },
+        },
+      },
+    });
+
+    expect(output).toContain("  export type Status = 'active' | 'closed';");
+    expect(output).toContain('  export interface Address {\n    city: string | null;\n  }');
+    expect(output).toContain('    status: Status;\n    email: string;\n    home: Address | null;');
+    expect(output).toContain('    status: Public.Status;\n    history: Public.Status[];');
+  });
+
+  it('types Oracle strings and decimals like their standard counterparts', () => {
+    const output = format(
+      {
+        schemas: {
+          APP: {
+            tables: {
+              ORDERS: {
+                columns: [
+                  column('ID', 'NUMBER(12)'),
+                  column('TOTAL', 'NUMBER(10,2)'),
+                  column('RATIO', 'NUMBER'),
+                  column('CODE', 'VARCHAR2(20 CHAR)'),
+                  column('NOTE', 'NVARCHAR2(100)'),
+                ],
+              },
+            },
+          },
+        },
+      },
+      'ORACLE'
+    );
+
+    expect(output).toContain(
+      '    ID: number;\n    TOTAL: string;\n    RATIO: number;\n    CODE: string;\n    NOTE: string;'
+    );
+  });
+
+  it('suffixes enums and composite types named like a table in the same schema', () => {
+    const output = format({
+      schemas: {
+        public: {
+          enums: { order_status: ['open', 'paid'] },
+          compositeTypes: { Address: [column('city', 'text')] },
+          tables: {
+            OrderStatus: { columns: [column('status', 'order_status')] },
+            address: { columns: [column('home', 'Address')] },
+          },
+        },
+        sales: {
+          tables: { deals: { columns: [column('status', 'public.order_status')] } },
+        },
+      },
+    });
+
+    expect(output).toContain("  export type OrderStatusType = 'open' | 'paid';");
+    expect(output).toContain('  export interface AddressType {');
+    expect(output).toContain('  export interface OrderStatus {\n    status: OrderStatusType;\n  }');
+    expect(output).toContain('  export interface Address {\n    home: AddressType;\n  }');
+    expect(output).toContain('    status: Public.OrderStatusType;');
+  });
+
+  it('marks MongoDB fields that are missing from some documents as optional', () => {
+    const output = new TypeScriptFormatter('MONGODB', { deterministic: true }).format(
+      JSON.stringify({
+        databases: {
+          app: {
+            collections: [
+              {
+                collection: 'users',
+                fields: ['_id', 'name', 'address', 'address.city', 'tags'],
+                types: {
+                  _id: ['objectId'],
+                  name: ['string', 'null'],
+                  address: ['object'],
+                  'address.city': ['string'],
+                  tags: ['array'],
+                },
+                presence: { _id: 1, name: 1, address: 0.5, 'address.city': 0.5, tags: 1 },
+              },
+            ],
+          },
+        },
+      }),
+      stats
+    );
+
+    expect(output).toContain(
+      [
+        '  export interface Users {',
+        '    _id: string;',
+        '    name: string | null;',
+        '    address?: {',
+        '      city: string;',
+        '    };',
+        '    tags: unknown[];',
+        '  }',
+      ].join('\n')
+    );
+  });
+});
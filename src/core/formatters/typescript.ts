@@ -0,0 +1,203 @@
+import { BaseFormatter } from './base';
+import { SchemaStats } from '../types';
+import {
+  CollectionShape,
+  FieldNode,
+  SchemaShape,
+  fieldTree,
+  fieldTypes,
+  isNullable,
+  isOptionalField,
+  propertyName,
+  resolveUserType,
+  stringLiteral,
+  typeName,
+} from './shapes';
+
+// Checked in order against the lower-cased column type. bigint and numeric values are strings
+// because database drivers return them as strings to keep their precision; Oracle NUMBER with a
+// scale is a decimal like numeric.
+const COLUMN_TYPES: Array<[RegExp, string]> = [
+  [/^(bool|boolean|tinyint\(1\)|bit)$/, 'boolean'],
+  [/^(bigint|int8|bigserial|numeric|decimal|money)\b/, 'string'],
+  [/^number\(\s*\d+\s*,\s*[1-9]\d*\s*\)/, 'string'],
+  [
+    /^(smallint|integer|int|int2|int4|mediumint|tinyint|serial|smallserial|real|float|float4|float8|double|number)\b/,
+    'number',
+  ],
+  [/^(date|datetime|smalldatetime|timestamp)/, 'Date'],
+  [/^(json|jsonb)$/, 'unknown'],
+  [/^(bytea|blob|longblob|mediumblob|tinyblob|binary|varbinary|image|raw)\b/, 'Uint8Array'],
+  [
+    /^(char|character|varchar|varchar2|nchar|nvarchar|nvarchar2|text|ntext|tinytext|mediumtext|longtext|citext|clob|nclob|uuid|uniqueidentifier|time|interval|inet|cidr|macaddr|xml|tsvector|tsquery|enum|set)\b/,
+    'string',
+  ],
+];
+
+const BSON_TYPES: Record<string, string> = {
+  string: 'string',
+  symbol: 'string',
+  javascript: 'string',
+  regex: 'string',
+  objectId: 'string',
+  decimal: 'string',
+  int: 'number',
+  double: 'number',
+  long: 'number',
+  bool: 'boolean',
+  date: 'Date',
+  timestamp: 'Date',
+  binData: 'Uint8Array',
+  null: 'null',
+  undefined: 'undefined',
+};
+
+/**
+ * Renders the schema as TypeScript declarations: a namespace per schema (or MongoDB database)
+ * holding one interface per table or collection, with enums as string literal unions.
+ */
+export class TypeScriptFormatter extends BaseFormatter {
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as SchemaShape;
+      const body = schema.databases
+        ? this.formatDatabases(schema.databases)
+        : this.formatSchemas(schema);
+
+      return `${this.generateCommentHeader('//', stats)}\n${body}`;
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  private formatSchemas(schema: SchemaShape): string {
+    return Object.entries(schema.schemas || {})
+      .map(([schemaName, schemaData]) => {
+        const declarations: string[] = [];
+
+        Object.entries(schemaData?.enums || {}).forEach(([name, values]) => {
+          const union = values.length > 0 ? values.map(stringLiteral).join(' | ') : 'never';
+          declarations.push(`export type ${userTypeName(schemaName, name, schema)} = ${union};`);
+        });
+
+        Object.entries(schemaData?.compositeTypes || {}).forEach(([name, attributes]) => {
+          // Attributes of a composite type cannot be declared NOT NULL
+          const properties = attributes.map(
+            (attr) =>
+              `  ${propertyName(attr.column)}: ${columnType(attr.type, schemaName, schema)} | null;`
+          );
+          declarations.push(
+            `export interface ${userTypeName(schemaName, name, schema)} {\n${properties.join('\n')}\n}`
+          );
+        });
+
+        Object.entries(schemaData?.tables || {}).forEach(([name, table]) => {
+          const properties = (table.columns || []).map((col) => {
+            const type = columnType(col.type, schemaName, schema);
+            const property = `  ${propertyName(col.column)}: ${type}${isNullable(col) ? ' | null' : ''};`;
+            return col.description ? `${docComment(col.description, '  ')}\n${property}` : property;
+          });
+          const declaration = `export interface ${typeName(name)} {\n${properties.join('\n')}\n}`;
+          declarations.push(
+            table.description ? `${docComment(table.description, '')}\n${declaration}` : declaration
+          );
+        });
+
+        return formatNamespace(schemaName, declarations);
+      })
+      .join('\n');
+  }
+
+  private formatDatabases(databases: NonNullable<SchemaShape['databases']>): string {
+    return Object.entries(databases)
+      .map(([databaseName, { collections }]) =>
+        formatNamespace(
+          databaseName,
+          (collections || []).map(
+            (coll) =>
+              `export interface ${typeName(coll.collection)} ${objectType(fieldTree(coll), coll, '')}`
+          )
+        )
+      )
+      .join('\n');
+  }
+}
+
+function formatNamespace(name: string, declarations: string[]): string {
+  const body = declarations.map((declaration) => indent(declaration, '  ')).join('\n\n');
+
+  return `export namespace ${typeName(name)} {\n${body}\n}\n`;
+}
+
+/**
+ * Map a relational column type to TypeScript. Enums and composite types refer to their
+ * declarations, qualified with the namespace when they live in another schema; domains take
+ * their base type.
+ */
+function columnType(type: string, schemaName: string, schema: SchemaShape): string {
+  if (type.endsWith('[]')) {
+    const element = columnType(type.slice(0, -2), schemaName, schema);
+    return element.includes(' | ') ? `(${element})[]` : `${element}[]`;
+  }
+
+  const userType = resolveUserType(type, schemaName, schema);
+  if (userType?.kind === 'domain') {
+    return columnType(userType.type, userType.schema, schema);
+  }
+  if (userType) {
+    const name = userTypeName(userType.schema, userType.name, schema);
+    return userType.schema === schemaName ? name : `${typeName(userType.schema)}.${name}`;
+  }
+
+  const lower = type.toLowerCase();
+  const match = COLUMN_TYPES.find(([pattern]) => pattern.test(lower));
+  return match ? match[1] : 'unknown';
+}
+
+// Enums and composite types get a `Type` suffix when a table in their namespace has the same name
+function userTypeName(schemaName: string, name: string, schema: SchemaShape): string {
+  const tables = Object.keys(schema.schemas?.[schemaName]?.tables || {}).map(typeName);
+  return tables.includes(typeName(name)) ? `${typeName(name)}Type` : typeName(name);
+}
+
+function documentType(node: FieldNode, coll: CollectionShape, padding: string): string {
+  const union = fieldTypes(node).map((type) => {
+    if (type === 'object') {
+      return node.properties.size > 0 ? objectType(node, coll, padding) : 'Record<string, unknown>';
+    }
+    if (type === 'array') {
+      if (!node.items) {
+        return 'unknown[]';
+      }
+      const element = documentType(node.items, coll, padding);
+      return element.includes(' | ') ? `(${element})[]` : `${element}[]`;
+    }
+    return BSON_TYPES[type] || 'unknown';
+  });
+
+  return Array.from(new Set(union)).join(' | ');
+}
+
+function objectType(node: FieldNode, coll: CollectionShape, padding: string): string {
+  const properties = Array.from(node.properties.entries()).map(([name, child]) => {
+    const optional = isOptionalField(coll, node, child);
+    const type = documentType(child, coll, `${padding}  `);
+    return `${padding}  ${propertyName(name)}${optional ? '?' : ''}: ${type};`;
+  });
+
+  return `{\n${properties.join('\n')}\n${padding}}`;
+}
+
+function docComment(text: string, padding: string): string {
+  const lines = text.replace(/\*\//g, '* /').split('\n');
+  return lines.length === 1
+    ? `${padding}/** ${lines[0]} */`
+    : [`${padding}/**`, ...lines.map((line) => `${padding} * ${line}`), `${padding} */`].join('\n');
+}
+
+function indent(text: string, padding: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${padding}${line}` : line))
+    .join('\n');
+}
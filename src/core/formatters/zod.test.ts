@@ -0,0 +1,123 @@
+import type { ColumnDefinition, SchemaStats } from '../types';
+import { ZodFormatter } from './zod';
+
+const stats: SchemaStats = { totalSize: 100, objectCount: 1, details: { tables: 1 } };
+
+function column(
+  name: string,
+  type: string,
+  extra: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+  return { column: name, type, nullable: 'NO', default: null, constraints: null, ...extra };
+}
+
+function format(columns: ColumnDefinition[], dbType = 'POSTGRES', schemaData = {}): string {
+  return new ZodFormatter(dbType, { deterministic: true }).format(
+    JSON.stringify({ schemas: { public: { ...schemaData, tables: { items: { columns } } } } }),
+    stats
+  );
+}
+
+// The validator of the single `value` column
+function validator(type: string, dbType?: string): string {
+  const output = format([column('value', type)], dbType);
+  return (/^ {2}value: (.*),$/m.exec(output) || [])[1];
+}
+
+describe('ZodFormatter', () => {
+  it('declares a validator and an inferred type per table', () => {
+    const output = format([
+      column('id', 'integer'),
+      column('name', 'character varying(100)', { nullable: 'YES' }),
+      column('created_at', 'timestamp without time zone', { default: 'now()' }),
+    ]);
+
+    expect(output).toContain("import { z } from 'zod';\n");
+    expect(output).toContain(
+      [
+        'export const PublicItems = z.object({',
+        '  id: z.number().int().min(-2147483648).max(2147483647),',
+        '  name: z.string().max(100).nullable(),',
+        '  created_at: z.coerce.date().optional(),',
+        '});',
+        'export type PublicItems = z.infer<typeof PublicItems>;',
+      ].join('\n')
+    );
+  });
+
+  it.each([
+    ['tinyint', 'MYSQL', 'z.number().int().min(-128).max(127)'],
+    ['tinyint unsigned', 'MYSQL', 'z.number().int().min(0).max(255)'],
+    ['tinyint(3) unsigned', 'MYSQL', 'z.number().int().min(0).max(255)'],
+    ['int unsigned', 'MYSQL', 'z.number().int().min(0).max(4294967295)'],
+    ['smallint', 'POSTGRES', 'z.number().int().min(-32768).max(32767)'],
+    ['integer', 'SQLITE', 'z.number().int()'],
+  ])('gives %s on %s the range of its size', (type, dbType, expected) => {
+    expect(validator(type, dbType)).toBe(expected);
+  });
+
+  it.each([
+    ['bigint', 'z.string().regex(/^-?\\d{1,19}$/)'],
+    ['bigint unsigned', 'z.string().regex(/^\\d{1,20}$/)'],
+    ['numeric', 'z.string().regex(/^-?\\d+(\\.\\d+)?$/)'],
+    ['numeric(10,2)', 'z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/)'],
+    ['decimal(5)', 'z.string().regex(/^-?\\d{1,5}$/)'],
+    ['numeric(2,2)', 'z.string().regex(/^-?0(\\.\\d{1,2})?$/)'],
+    ['decimal(10,2) unsigned', 'z.string().regex(/^\\d{1,8}(\\.\\d{1,2})?$/)'],
+    ['money', 'z.string()'],
+  ])('validates %s as a string, as drivers return it', (type, expected) => {
+    expect(validator(type)).toBe(expected);
+  });
+
+  it('accepts the strings drivers return for decimals within their precision', () => {
+    const pattern = /^-?\d{1,8}(\.\d{1,2})?$/;
+    expect(validator('numeric(10,2)')).toBe(`z.string().regex(${pattern})`);
+
+    expect(['12345678.90', '-0.5', '42'].every((value) => pattern.test(value))).toBe(true);
+    expect(['123456789.00', '1.234', '1e5'].some((value) => pattern.test(value))).toBe(false);
+  });
+
+  it('maps Oracle NUMBER to a number, or to a decimal string when it has a scale', () => {
+    expect(validator('number(10)', 'ORACLE')).toBe('z.number().int()');
+    expect(validator('number', 'ORACLE')).toBe('z.number()');
+    expect(validator('number(10,2)', 'ORACLE')).toBe(
+      'z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/)'
+    );
+  });
+
+  it.each([
+    ['bit', 'MSSQL', 'z.boolean()'],
+    ['bit(1)', 'MYSQL', 'z.boolean()'],
+    ['bit(8)', 'MYSQL', 'z.instanceof(Uint8Array)'],
+    ['bit(4)', 'POSTGRES', 'z.string().regex(/^[01]{4}$/)'],
+    ['bit varying(16)', 'POSTGRES', 'z.string().regex(/^[01]{0,16}$/)'],
+  ])('only treats a single bit as a boolean: %s on %s', (type, dbType, expected) => {
+    expect(validator(type, dbType)).toBe(expected);
+  });
+
+  it('refers to enum validators and resolves domains', () => {
+    const output = format([column('status', 'status'), column('email', 'email')], 'POSTGRES', {
+      enums: { status: ['active', 'closed'] },
+      domains: { email: { type: 'character varying(255)', nullable: 'NO' } },
+    });
+
+    expect(output).toContain("export const PublicStatus = z.enum(['active', 'closed']);");
+    expect(output).toContain('  status: PublicStatus,\n  email: z.string().max(255),');
+  });
+
+  it('refers to the enums MySQL keys by table and column, with SET as an array', () => {
+    const output = format(
+      [
+        column('status', "enum('active','on hold')"),
+        column('tags', "set('gift','rush')", { nullable: 'YES' }),
+      ],
+      'MYSQL',
+      { enums: { 'items.status': ['active', 'on hold'], 'items.tags': ['gift', 'rush'] } }
+    );
+
+    expect(output).toContain("export const PublicItemsStatus = z.enum(['active', 'on hold']);");
+    expect(output).toContain(
+      '  status: PublicItemsStatus,\n  tags: z.array(PublicItemsTags).nullable(),'
+    );
+  });
+});
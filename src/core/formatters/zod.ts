@@ -0,0 +1,331 @@
+import { BaseFormatter } from './base';
+import { ColumnDefinition, SchemaStats } from '../types';
+import {
+  CollectionShape,
+  FieldNode,
+  SchemaShape,
+  fieldTree,
+  fieldTypes,
+  isNullable,
+  isOptionalField,
+  propertyName,
+  resolveUserType,
+  stringLiteral,
+  typeName,
+} from './shapes';
+
+// Ranges of the fixed-size integer types, so out-of-range values fail validation
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  tinyint: [-128, 127],
+  smallint: [-32768, 32767],
+  int2: [-32768, 32767],
+  smallserial: [1, 32767],
+  mediumint: [-8388608, 8388607],
+  integer: [-2147483648, 2147483647],
+  int: [-2147483648, 2147483647],
+  int4: [-2147483648, 2147483647],
+  serial: [1, 2147483647],
+};
+
+// MySQL integer types declared UNSIGNED
+const UNSIGNED_INTEGER_RANGES: Record<string, [number, number]> = {
+  tinyint: [0, 255],
+  smallint: [0, 65535],
+  mediumint: [0, 16777215],
+  integer: [0, 4294967295],
+  int: [0, 4294967295],
+};
+
+const BSON_SCHEMAS: Record<string, string> = {
+  string: 'z.string()',
+  symbol: 'z.string()',
+  javascript: 'z.string()',
+  regex: 'z.string()',
+  objectId: 'z.string().regex(/^[0-9a-f]{24}$/i)',
+  decimal: 'z.string()',
+  int: 'z.number().int()',
+  long: 'z.number().int()',
+  double: 'z.number()',
+  bool: 'z.boolean()',
+  date: 'z.coerce.date()',
+  timestamp: 'z.coerce.date()',
+  binData: 'z.instanceof(Uint8Array)',
+  undefined: 'z.undefined()',
+};
+
+/**
+ * Renders the schema as Zod validators, one `z.object` per table or collection, each followed by
+ * its inferred type. Declarations are named after their schema and table (`PublicUsers`), so
+ * tables with the same name in two schemas stay distinct.
+ */
+export class ZodFormatter extends BaseFormatter {
+  format(schemaStr: string, stats: SchemaStats): string {
+    try {
+      const schema = JSON.parse(schemaStr) as SchemaShape;
+      const declarations = schema.databases
+        ? this.formatDatabases(schema.databases)
+        : this.formatSchemas(schema);
+
+      return `${this.generateCommentHeader('//', stats)}\nimport { z } from 'zod';\n\n${declarations.join('\n\n')}\n`;
+    } catch (error) {
+      return `Error formatting schema: ${(error as Error).message}`;
+    }
+  }
+
+  // Enums and composite types come first, since table validators refer to them
+  private formatSchemas(schema: SchemaShape): string[] {
+    const schemas = Object.entries(schema.schemas || {});
+
+    const enums = schemas.flatMap(([schemaName, schemaData]) =>
+      Object.entries(schemaData?.enums || {}).map(([name, values]) =>
+        declare(
+          schemaName,
+          name,
+          values.length > 0 ? `z.enum([${values.map(stringLiteral).join(', ')}])` : 'z.never()'
+        )
+      )
+    );
+
+    const composites = schemas.flatMap(([schemaName, schemaData]) =>
+      Object.entries(schemaData?.compositeTypes || {}).map(([name, attributes]) =>
+        declare(
+          schemaName,
+          name,
+          zodObject(
+            // Attributes of a composite type cannot be declared NOT NULL
+            attributes.map((attr) => [
+              attr.column,
+              `${this.columnSchema(attr.type, schemaName, schema)}.nullable()`,
+            ])
+          )
+        )
+      )
+    );
+
+    const tables = schemas.flatMap(([schemaName, schemaData]) =>
+      Object.entries(schemaData?.tables || {}).map(([name, table]) =>
+        declare(
+          schemaName,
+          name,
+          zodObject(
+            (table.columns || []).map((col) => [
+              col.column,
+              this.formatColumn(col, name, schemaName, schema),
+            ])
+          )
+        )
+      )
+    );
+
+    return [...enums, ...composites, ...tables];
+  }
+
+  /**
+   * Columns with a default may be left out of a payload, since the database fills them in, so
+   * they are optional rather than carrying the default value itself.
+   */
+  private formatColumn(
+    col: ColumnDefinition,
+    tableName: string,
+    schemaName: string,
+    schema: SchemaShape
+  ): string {
+    const hasDefault = col.default !== null && col.default !== undefined;
+    const validator =
+      columnEnumSchema(col, tableName, schemaName, schema) ||
+      this.columnSchema(col.type, schemaName, schema);
+    return `${validator}${isNullable(col) ? '.nullable()' : ''}${hasDefault ? '.optional()' : ''}`;
+  }
+
+  /**
+   * Map a relational column type to a Zod validator, carrying over character lengths, integer
+   * ranges and numeric precision and scale. Enums and composite types refer to their own
+   * validators; domains take their base type.
+   */
+  private columnSchema(type: string, schemaName: string, schema: SchemaShape): string {
+    if (type.endsWith('[]')) {
+      return `z.array(${this.columnSchema(type.slice(0, -2), schemaName, schema)})`;
+    }
+
+    const userType = resolveUserType(type, schemaName, schema);
+    if (userType?.kind === 'domain') {
+      return this.columnSchema(userType.type, userType.schema, schema);
+    }
+    if (userType) {
+      return identifier(userType.schema, userType.name);
+    }
+
+    // `character varying(255)` has base `character varying`; modifiers such as
+    // `with time zone` are ignored
+    const lower = type.toLowerCase().trim();
+    const [, base = '', params] = /^([a-z][\w ]*)(?:\(([^)]*)\))?/.exec(lower) || [];
+    const word = base.trim().split(' ')[0];
+    const unsigned = /\bunsigned\b/.test(lower);
+    const args = (params || '')
+      .split(',')
+      .map((arg) => parseInt(arg.trim(), 10))
+      .filter((arg) => !Number.isNaN(arg));
+
+    // MySQL returns BIT(n) as a Buffer and Postgres as a string of zeros and ones; only a single
+    // bit is a boolean
+    if (word === 'bit' && (args[0] > 1 || base.startsWith('bit varying'))) {
+      if (this.dbType === 'MYSQL') {
+        return 'z.instanceof(Uint8Array)';
+      }
+      const length = base.startsWith('bit varying') ? `{0,${args[0] ?? ''}}` : `{${args[0]}}`;
+      return `z.string().regex(/^[01]${length}$/)`;
+    }
+    if (/^(bool|boolean|bit)$/.test(word) || lower === 'tinyint(1)') {
+      return 'z.boolean()';
+    }
+    if (INTEGER_RANGES[word]) {
+      // SQLite stores every INTEGER in up to 8 bytes
+      if (this.dbType === 'SQLITE') {
+        return 'z.number().int()';
+      }
+      const [min, max] = (unsigned && UNSIGNED_INTEGER_RANGES[word]) || INTEGER_RANGES[word];
+      return `z.number().int().min(${min}).max(${max})`;
+    }
+    // Database drivers return 64-bit integers and decimals as strings to keep their precision
+    if (/^(bigint|int8|bigserial)$/.test(word)) {
+      return unsigned ? 'z.string().regex(/^\\d{1,20}$/)' : 'z.string().regex(/^-?\\d{1,19}$/)';
+    }
+    if (/^(numeric|decimal)$/.test(word)) {
+      return decimalSchema(args[0], args[1], unsigned);
+    }
+    // Postgres formats money with the currency symbol and separators of its locale
+    if (word === 'money') {
+      return 'z.string()';
+    }
+    // Oracle NUMBER with a scale is a decimal like NUMERIC; otherwise an integer or a float
+    if (word === 'number') {
+      if (args[1] > 0) {
+        return decimalSchema(args[0], args[1], unsigned);
+      }
+      return args.length > 0 ? 'z.number().int()' : 'z.number()';
+    }
+    if (/^(real|float|float4|float8|double)$/.test(word)) {
+      return 'z.number()';
+    }
+    if (/^(date|datetime|datetime2|smalldatetime|datetimeoffset|timestamp)/.test(base)) {
+      return 'z.coerce.date()';
+    }
+    if (/^(uuid|uniqueidentifier)$/.test(word)) {
+      return 'z.string().uuid()';
+    }
+    if (/^(json|jsonb)$/.test(word)) {
+      return 'z.unknown()';
+    }
+    if (/^(bytea|blob|longblob|mediumblob|tinyblob|binary|varbinary|image|raw)$/.test(word)) {
+      return 'z.instanceof(Uint8Array)';
+    }
+    if (
+      /(char|text|clob|citext|xml|time|interval|inet|cidr|macaddr|tsvector|tsquery|enum|set)/.test(
+        base
+      )
+    ) {
+      // Fixed-length CHAR columns are padded by the database, so shorter values are accepted too
+      return args.length > 0 && base.includes('char') ? `z.string().max(${args[0]})` : 'z.string()';
+    }
+
+    return 'z.unknown()';
+  }
+
+  private formatDatabases(databases: NonNullable<SchemaShape['databases']>): string[] {
+    return Object.entries(databases).flatMap(([databaseName, { collections }]) =>
+      (collections || []).map((coll) =>
+        declare(databaseName, coll.collection, documentObject(fieldTree(coll), coll, ''))
+      )
+    );
+  }
+}
+
+function identifier(schemaName: string, name: string): string {
+  return `${typeName(schemaName)}${typeName(name)}`;
+}
+
+function declare(schemaName: string, name: string, validator: string): string {
+  const id = identifier(schemaName, name);
+  return `export const ${id} = ${validator};\nexport type ${id} = z.infer<typeof ${id}>;`;
+}
+
+// MySQL keeps the values of ENUM and SET columns under `<table>.<column>`; a SET holds any number
+// of them
+function columnEnumSchema(
+  col: ColumnDefinition,
+  tableName: string,
+  schemaName: string,
+  schema: SchemaShape
+): string | null {
+  const key = `${tableName}.${col.column}`;
+  if (!schema.schemas?.[schemaName]?.enums?.[key]) {
+    return null;
+  }
+  return /^set\b/i.test(col.type)
+    ? `z.array(${identifier(schemaName, key)})`
+    : identifier(schemaName, key);
+}
+
+function zodObject(properties: Array<[string, string]>, padding = ''): string {
+  if (properties.length === 0) {
+    return 'z.object({})';
+  }
+
+  const lines = properties.map(
+    ([name, validator]) => `${padding}  ${propertyName(name)}: ${validator},`
+  );
+  return `z.object({\n${lines.join('\n')}\n${padding}})`;
+}
+
+// NUMERIC(p, s) holds p digits, s of them after the decimal point
+function decimalSchema(precision?: number, scale = 0, unsigned = false): string {
+  const sign = unsigned ? '' : '-?';
+  if (precision === undefined) {
+    return `z.string().regex(/^${sign}\\d+(\\.\\d+)?$/)`;
+  }
+
+  const integer = precision > scale ? `\\d{1,${precision - scale}}` : '0';
+  const fraction = scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+  return `z.string().regex(/^${sign}${integer}${fraction}$/)`;
+}
+
+function documentSchema(node: FieldNode, coll: CollectionShape, padding: string): string {
+  const types = fieldTypes(node);
+  const nullable = types.includes('null') && types.length > 1;
+
+  const variants = Array.from(
+    new Set(
+      types
+        .filter((type) => !nullable || type !== 'null')
+        .map((type) => {
+          if (type === 'object') {
+            return node.properties.size > 0
+              ? documentObject(node, coll, padding)
+              : 'z.record(z.unknown())';
+          }
+          if (type === 'array') {
+            return node.items
+              ? `z.array(${documentSchema(node.items, coll, padding)})`
+              : 'z.array(z.unknown())';
+          }
+          if (type === 'null') {
+            return 'z.null()';
+          }
+          return BSON_SCHEMAS[type] || 'z.unknown()';
+        })
+    )
+  );
+
+  const validator = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+  return nullable ? `${validator}.nullable()` : validator;
+}
+
+function documentObject(node: FieldNode, coll: CollectionShape, padding: string): string {
+  return zodObject(
+    Array.from(node.properties.entries()).map(([name, child]) => {
+      const validator = documentSchema(child, coll, `${padding}  `);
+      return [name, isOptionalField(coll, node, child) ? `${validator}.optional()` : validator];
+    }),
+    padding
+  );
+}
@@ -6,18 +6,50 @@ export interface SchemaStats {
     tables?: number;
     columns?: number;
     indexes?: number;
+    views?: number;
     enums?: number;
+    relations?: number;
+    functions?: number;
+    triggers?: number;
     collections?: number;
     fields?: number;
   };
 }
 
+export type OutputFormat =
+  'raw' | 'markdown' | 'dbml' | 'mermaid' | 'typescript' | 'zod' | 'prisma';
+
 export interface SchemaOptions {
   dbString: string;
   filename?: string;
   directory?: string;
   timeout?: number;
-  format?: 'raw' | 'markdown';
+  format?: OutputFormat;
+}
+
+export type RedactionMode = 'placeholder' | 'fake' | 'hash' | 'omit';
+
+export interface RedactionOptions {
+  mode?: RedactionMode;
+  // Extra field-name patterns (regular expression sources) that are always redacted
+  fields?: string[];
+  // Key for `hash` and `fake` values; without it a random key is used, so values change per run
+  secret?: string;
+}
+
+export interface AnalyzerOptions {
+  includeFunctionBodies?: boolean;
+  redaction?: RedactionOptions;
+}
+
+export interface FormatterOptions {
+  // Leave out content that changes between runs, such as the generation timestamp
+  deterministic?: boolean;
+  // Limit diagram formats to these schemas (or MongoDB databases) and tables
+  diagram?: {
+    schemas?: string[];
+    tables?: string[];
+  };
 }
 
 export interface DatabaseAnalyzer {
@@ -33,6 +65,7 @@ export interface ColumnDefinition {
   nullable: string;
   default: string | null;
   constraints: string[] | null;
+  description?: string;
 }
 
 export interface TableIndex {
@@ -40,10 +73,39 @@ export interface TableIndex {
   definition: string;
 }
 
+export interface ForeignKeyDefinition {
+  name: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+}
+
+export interface InferredReference {
+  field: string;
+  referencedDatabase: string;
+  referencedCollection: string;
+  referencedField: string;
+  // Between 0 and 1, from how much evidence supports the reference
+  confidence: number;
+  evidence: string[];
+}
+
+export interface TableConstraint {
+  name: string;
+  type: string;
+  columns: string[];
+  definition: string;
+}
+
 export interface TableInfo {
   description?: string;
   columns: ColumnDefinition[];
   indexes: TableIndex[];
+  foreignKeys?: ForeignKeyDefinition[];
+  constraints?: TableConstraint[];
 }
 
 export interface Schema {
@@ -57,6 +119,7 @@ export interface ConnectionConfig {
   sslMode: 'disable' | 'allow' | 'prefer' | 'require' | 'verify-ca' | 'verify-full';
   schemas?: string[]; // Add schemas array
   description?: string;
+  sampleSize?: number; // MongoDB documents sampled per collection
   created: string;
   lastUsed?: string;
   tag: string;
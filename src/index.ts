@@ -11,7 +11,14 @@ import { testConnection } from './cli/commands/test';
 import { copyConnectionString } from './cli/commands/copy';
 import { showUpdateHelp, updateConnection, UpdateProperty } from './cli/commands/update';
 import { selectSchemas, listConnectionSchemas, showSchemasHelp } from './cli/commands/schemas';
+import { diffCommand, showDiffHelp } from './cli/commands/diff';
+import { showHistory, showHistoryHelp } from './cli/commands/history';
+import { CHECK_EXIT_CODES, checkSchema, showCheckHelp } from './cli/commands/check';
 import { logger, LogLevel } from './utils/logger';
+import { REDACTION_MODES } from './core/analyzers/mongo-redaction';
+import { CHANGE_CATEGORIES, ChangeCategory, DIFF_FORMATS, DiffFormat } from './core/diff';
+import { OUTPUT_FORMATS } from './core/formatters';
+import type { OutputFormat } from './core/types';
 
 type CopyProperty = 'host' | 'port' | 'schemas' | 'username' | 'password' | 'database';
 const validProperties: CopyProperty[] = [
@@ -23,6 +30,27 @@ const validProperties: CopyProperty[] = [
   'database',
 ];
 
+// Short names accepted for --format
+const FORMAT_ALIASES: Record<string, OutputFormat> = {
+  md: 'markdown',
+  ts: 'typescript',
+};
+
+function normalizeOutputFormat(format: string): OutputFormat {
+  const normalized = FORMAT_ALIASES[format.toLowerCase()] || format.toLowerCase();
+  if (!OUTPUT_FORMATS.includes(normalized as OutputFormat)) {
+    throw new Error(`Invalid format option. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return normalized as OutputFormat;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 function isCopyProperty(value: string): value is CopyProperty {
   return validProperties.includes(value as CopyProperty);
 }
@@ -84,21 +112,37 @@ async function main(): Promise<void> {
     .option('-f, --filename <name>', 'Output filename')
     .option('-d, --directory <path>', 'Output directory (default: current directory)')
     .option('-t, --timeout <ms>', 'Connection timeout in milliseconds')
-    .option('--format <type>', 'Output format: "raw" or "markdown"')
+    .option('--format <type>', `Output format: ${OUTPUT_FORMATS.map((f) => `"${f}"`).join(', ')}`)
     .option('--no-copy', 'Do not copy output to clipboard')
+    .option('--function-bodies', 'Include function and procedure bodies (default)')
+    .option('--no-function-bodies', 'Leave function and procedure bodies out of the output')
+    .option(
+      '--redact <mode>',
+      'MongoDB sample data: "placeholder" (default), "fake", "hash" or "omit"'
+    )
+    .option('--history', 'Save a snapshot to the connection history')
+    .option('--no-history', 'Do not save a snapshot, even if the history preference is set')
+    .option('--deterministic', 'Sort the output and leave out the timestamp (default)')
+    .option('--no-deterministic', 'Keep the timestamp and database ordering in the output')
+    .option('--diagram-schemas <names>', 'Comma-separated schemas to draw in a mermaid diagram')
+    .option('--diagram-tables <names>', 'Comma-separated tables to draw in a mermaid diagram')
     .option('--verbose', 'Enable verbose logging')
     .action(async (tag: string | undefined, options) => {
       try {
         if (options.verbose) {
           logger.setLevel(LogLevel.DEBUG);
         }
-        if (options.format && !['raw', 'markdown', 'md'].includes(options.format.toLowerCase())) {
-          throw new Error('Invalid format option. Use "raw" or "markdown"');
+        if (options.format) {
+          options.format = normalizeOutputFormat(options.format);
         }
-        if (options.format?.toLowerCase() === 'md') {
-          options.format = 'markdown';
+        if (options.redact && !REDACTION_MODES.includes(options.redact)) {
+          throw new Error(`Invalid redact option. Use one of: ${REDACTION_MODES.join(', ')}`);
         }
-        await fetchSchema(tag, options);
+        await fetchSchema(tag, {
+          ...options,
+          diagramSchemas: parseList(options.diagramSchemas),
+          diagramTables: parseList(options.diagramTables),
+        });
       } catch (error) {
         if (error instanceof Error) {
           console.error('\n' + error.message + '\n');
@@ -109,6 +153,113 @@ async function main(): Promise<void> {
       }
     });
 
+  // Diff command
+  program
+    .command('diff [source] [target]')
+    .description('Compare two schemas (connection tags or raw snapshot files)')
+    .option('--format <type>', 'Output format: "text", "markdown" or "json"', 'text')
+    .option('-o, --output <file>', 'Write the diff to a file instead of the terminal')
+    .option('-t, --timeout <ms>', 'Connection timeout in milliseconds')
+    .action(async (source: string | undefined, target: string | undefined, options) => {
+      try {
+        if (!source || !target) {
+          showDiffHelp();
+          throw new Error(`Missing required argument: ${source ? 'target' : 'source'}`);
+        }
+        if (options.format?.toLowerCase() === 'md') {
+          options.format = 'markdown';
+        }
+        if (!DIFF_FORMATS.includes(options.format as DiffFormat)) {
+          throw new Error(`Invalid format option. Use one of: ${DIFF_FORMATS.join(', ')}`);
+        }
+        await diffCommand(source, target, {
+          ...options,
+          timeout: options.timeout ? parseInt(options.timeout, 10) : undefined,
+        });
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error('\n' + error.message + '\n');
+        }
+        process.exit(1);
+      }
+    });
+
+  // Check command
+  program
+    .command('check [tag] [baseline]')
+    .description('Compare a connection to a baseline snapshot and exit non-zero on drift')
+    .option(
+      '--fail-on <kinds>',
+      `Comma-separated change kinds that fail the check (${CHANGE_CATEGORIES.join(', ')})`
+    )
+    .option('--format <type>', 'Report format: "text", "markdown" or "json"')
+    .option('-o, --output <file>', 'Also write the full diff to a file')
+    .option('-t, --timeout <ms>', 'Connection timeout in milliseconds')
+    .action(async (tag: string | undefined, baseline: string | undefined, options) => {
+      try {
+        if (!tag || !baseline) {
+          showCheckHelp();
+          throw new Error(`Missing required argument: ${tag ? 'baseline' : 'tag'}`);
+        }
+        if (options.format?.toLowerCase() === 'md') {
+          options.format = 'markdown';
+        }
+        if (options.format && !DIFF_FORMATS.includes(options.format as DiffFormat)) {
+          throw new Error(`Invalid format option. Use one of: ${DIFF_FORMATS.join(', ')}`);
+        }
+
+        const failOn = options.failOn
+          ?.split(',')
+          .map((kind: string) => kind.trim())
+          .filter(Boolean);
+        const invalid = (failOn || []).filter(
+          (kind: string) => !CHANGE_CATEGORIES.includes(kind as ChangeCategory)
+        );
+        if (invalid.length > 0) {
+          throw new Error(
+            `Invalid --fail-on kind: ${invalid.join(', ')}. Use: ${CHANGE_CATEGORIES.join(', ')}`
+          );
+        }
+
+        process.exitCode = await checkSchema(tag, baseline, {
+          ...options,
+          failOn,
+          timeout: options.timeout ? parseInt(options.timeout, 10) : undefined,
+        });
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error('\n' + error.message + '\n');
+        }
+        process.exit(CHECK_EXIT_CODES.ERROR);
+      }
+    });
+
+  // History command
+  program
+    .command('history [tag]')
+    .description('List saved schema snapshots for a connection, or export one')
+    .option('--export <ref>', 'Write the snapshot with this number or id to a file')
+    .option('--format <type>', `Export format: ${OUTPUT_FORMATS.map((f) => `"${f}"`).join(', ')}`)
+    .option('-f, --filename <name>', 'Export filename')
+    .option('-d, --directory <path>', 'Export directory (default: current directory)')
+    .action(async (tag: string | undefined, options) => {
+      try {
+        if (!tag) {
+          showHistoryHelp();
+          throw new Error('Missing required argument: tag');
+        }
+        if (options.format) {
+          options.format = normalizeOutputFormat(options.format);
+        }
+        await showHistory(tag, options);
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error('\n' + error.message + '\n');
+        }
+        process.exit(1);
+      }
+    });
+
   // List command
   program
     .command('list')
@@ -183,7 +334,7 @@ async function main(): Promise<void> {
   program
     .command('update [tag] [property] [value]')
     .description(
-      'Update connection properties (tag, ssl-mode, username, password, host, port, database, schema)'
+      'Update connection properties (tag, ssl-mode, username, password, host, port, database, schema, sample-size)'
     )
     .action(async (tag?: string, property?: string, value?: string) => {
       try {
@@ -203,6 +354,7 @@ async function main(): Promise<void> {
           'port',
           'database',
           'schema',
+          'sample-size',
         ];
 
         if (!validProperties.includes(property as UpdateProperty)) {
@@ -231,6 +383,8 @@ Common Workflows:
   $ schiba schemas prod --list       # Show current schema selection
   $ schiba fetch prod --format md    # Extract to markdown format
   $ schiba update prod ssl-mode require  # Update connection settings
+  $ schiba diff staging prod         # Compare two environments
+  $ schiba check prod baseline.txt   # Fail CI when prod drifts from a baseline
   
 Multi-Schema Support:
   - Use 'schiba schemas <tag>' for interactive schema selection
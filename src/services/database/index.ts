@@ -2,6 +2,10 @@ import { CONFIG } from '../../config/default';
 import { BaseConnection } from './base';
 import { PostgresConnection } from './postgres';
 import { MongoConnection } from './mongodb';
+import { MySQLConnection } from './mysql';
+import { SQLiteConnection } from './sqlite';
+import { MssqlConnection } from './mssql';
+import { OracleConnection } from './oracle';
 import type { ConnectionConfig } from '../../core/types';
 
 export function createConnection(
@@ -17,6 +21,14 @@ export function createConnection(
       return new PostgresConnection(connectionConfig, options);
     case 'MONGODB':
       return new MongoConnection(connectionConfig, options);
+    case 'MYSQL':
+      return new MySQLConnection(connectionConfig, options);
+    case 'SQLITE':
+      return new SQLiteConnection(connectionConfig, options);
+    case 'MSSQL':
+      return new MssqlConnection(connectionConfig, options);
+    case 'ORACLE':
+      return new OracleConnection(connectionConfig, options);
     default:
       throw new Error(`Unsupported database type for connection: ${connectionConfig.tag}`);
   }
@@ -25,3 +37,7 @@ export function createConnection(
 export * from './base';
 export * from './postgres';
 export * from './mongodb';
+export * from './mysql';
+export * from './sqlite';
+export * from './mssql';
+export * from './oracle';
@@ -0,0 +1,93 @@
+import { ConnectionPool, buildMssqlConfig, type MssqlClient } from '../../utils/mssql-client';
+import { BaseConnection } from './base';
+import type { ConnectionOptions } from './base';
+import type { ConnectionConfig } from '../../core/types';
+import chalk from 'chalk';
+
+export class MssqlConnection extends BaseConnection {
+  private client: MssqlClient;
+  private connectionConfig: ConnectionConfig;
+
+  constructor(connectionConfig: ConnectionConfig, options: ConnectionOptions = {}) {
+    super(connectionConfig.url, options);
+    this.connectionConfig = connectionConfig;
+    this.client = new ConnectionPool(buildMssqlConfig(connectionConfig, this.options.timeout));
+  }
+
+  public async connect(): Promise<void> {
+    try {
+      await this.client.connect();
+      this.connected = true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.connected) {
+      await this.client.close();
+      this.connected = false;
+    }
+  }
+
+  public async test(): Promise<boolean> {
+    try {
+      await this.client.request().query('SELECT 1');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public getClient(): MssqlClient {
+    return this.client;
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (errorCode === 'ELOGIN' || message.includes('Login failed')) {
+      return new Error('Authentication failed: Invalid username or password');
+    }
+
+    if (message.includes('certificate')) {
+      return new Error(
+        `SSL certificate verification failed.\n\n` +
+          chalk.yellow('To trust the server certificate, change the SSL mode:') +
+          '\n' +
+          `  ${chalk.cyan(`schiba update ${this.connectionConfig.tag} ssl-mode require`)}\n\n` +
+          `Then test your connection:\n` +
+          `  ${chalk.cyan(`schiba test ${this.connectionConfig.tag}`)}`
+      );
+    }
+
+    if (errorCode === 'ETIMEOUT') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Timeout: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1433'}`)} within the timeout period.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is responding.\n` +
+          `  2. Network latency or firewall rules may be causing delays.\n` +
+          `  3. Try increasing the timeout with --timeout option.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (errorCode === 'ESOCKET' || message.includes('ECONNREFUSED')) {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Refused: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1433'}`)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is running and accessible.\n` +
+          `  2. The host and port in your connection details are correct.\n` +
+          `  3. TCP/IP is enabled in SQL Server Configuration Manager.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+}
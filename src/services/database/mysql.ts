@@ -0,0 +1,109 @@
+import { createConnection, buildMySQLConfig, type MySQLClient } from '../../utils/mysql-client';
+import { BaseConnection } from './base';
+import type { ConnectionOptions } from './base';
+import type { ConnectionConfig } from '../../core/types';
+import chalk from 'chalk';
+
+export class MySQLConnection extends BaseConnection {
+  private client: MySQLClient | null = null;
+  private connectionConfig: ConnectionConfig;
+
+  constructor(connectionConfig: ConnectionConfig, options: ConnectionOptions = {}) {
+    super(connectionConfig.url, options);
+    this.connectionConfig = connectionConfig;
+  }
+
+  public async connect(): Promise<void> {
+    try {
+      this.client = await createConnection(
+        buildMySQLConfig(this.connectionConfig, this.options.timeout)
+      );
+      this.connected = true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.connected && this.client) {
+      await this.client.end();
+      this.client = null;
+      this.connected = false;
+    }
+  }
+
+  public async test(): Promise<boolean> {
+    try {
+      await this.client?.query('SELECT 1');
+      return !!this.client;
+    } catch {
+      return false;
+    }
+  }
+
+  public getClient(): MySQLClient | null {
+    return this.client;
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (errorCode === 'ER_ACCESS_DENIED_ERROR' || message.includes('Access denied')) {
+      return new Error('Authentication failed: Invalid username or password');
+    }
+
+    if (errorCode === 'ER_BAD_DB_ERROR') {
+      return new Error(
+        `${message}\n\n` +
+          `You can update the database name using ${chalk.cyan(`schiba update ${this.connectionConfig.tag} database <name>`)}`
+      );
+    }
+
+    if (message.includes('ECONNREFUSED') || errorCode === 'ECONNREFUSED') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Refused: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '3306'}`)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is running and accessible.\n` +
+          `  2. The host and port in your connection details are correct.\n` +
+          `  3. Firewalls or network security groups are not blocking the connection.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (message.includes('ETIMEDOUT') || errorCode === 'ETIMEDOUT') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Timeout: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '3306'}`)} within the timeout period.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is responding.\n` +
+          `  2. Network latency or firewall rules may be causing delays.\n` +
+          `  3. Try increasing the timeout with --timeout option.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (message.includes('ENOTFOUND') || errorCode === 'ENOTFOUND') {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Host Not Found: Could not resolve hostname ${chalk.cyan(`${url.hostname}`)}.\n\n` +
+          `You can update the hostname using ${chalk.cyan(`schiba update ${this.connectionConfig.tag} host <correct-hostname>`)}`
+      );
+    }
+
+    if (message.includes('does not support secure connection')) {
+      return new Error(
+        `The server does not support SSL connections.\n\n` +
+          `To fix this, disable SSL for your connection:\n` +
+          `  ${chalk.cyan(`schiba update ${this.connectionConfig.tag} ssl-mode disable`)}\n\n` +
+          `Then test your connection:\n` +
+          `  ${chalk.cyan(`schiba test ${this.connectionConfig.tag}`)}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+}
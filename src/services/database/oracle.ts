@@ -0,0 +1,90 @@
+import { getConnection, buildOracleConfig, type OracleClient } from '../../utils/oracle-client';
+import { BaseConnection } from './base';
+import type { ConnectionOptions } from './base';
+import type { ConnectionConfig } from '../../core/types';
+import chalk from 'chalk';
+
+export class OracleConnection extends BaseConnection {
+  private client: OracleClient | null = null;
+  private connectionConfig: ConnectionConfig;
+
+  constructor(connectionConfig: ConnectionConfig, options: ConnectionOptions = {}) {
+    super(connectionConfig.url, options);
+    this.connectionConfig = connectionConfig;
+  }
+
+  public async connect(): Promise<void> {
+    try {
+      this.client = await getConnection(
+        buildOracleConfig(this.connectionConfig, this.options.timeout)
+      );
+      this.connected = true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.connected && this.client) {
+      await this.client.close();
+      this.client = null;
+      this.connected = false;
+    }
+  }
+
+  public async test(): Promise<boolean> {
+    try {
+      await this.client?.execute('SELECT 1 FROM DUAL');
+      return !!this.client;
+    } catch {
+      return false;
+    }
+  }
+
+  public getClient(): OracleClient | null {
+    return this.client;
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (message.includes('ORA-01017')) {
+      return new Error('Authentication failed: Invalid username or password');
+    }
+
+    if (message.includes('ORA-12514') || message.includes('NJS-518')) {
+      return new Error(
+        `The service name was not recognised by the listener.\n\n` +
+          `You can update it using ${chalk.cyan(`schiba update ${this.connectionConfig.tag} database <service-name>`)}`
+      );
+    }
+
+    if (message.includes('NJS-510') || message.includes('ETIMEDOUT')) {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Timeout: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1521'}`)} within the timeout period.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database server is responding.\n` +
+          `  2. Network latency or firewall rules may be causing delays.\n` +
+          `  3. Try increasing the timeout with --timeout option.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    if (message.includes('NJS-503') || message.includes('ECONNREFUSED')) {
+      const url = new URL(this.connectionConfig.url);
+      return new Error(
+        `Connection Refused: Could not connect to ${chalk.cyan(`${url.hostname}:${url.port || '1521'}`)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The database listener is running and accessible.\n` +
+          `  2. The host and port in your connection details are correct.\n` +
+          `  3. SSL is disabled if the listener does not accept TCPS connections.\n\n` +
+          `You can update connection details using ${chalk.cyan('schiba update ...')}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+}
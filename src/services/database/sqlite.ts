@@ -0,0 +1,78 @@
+import { existsSync } from 'fs';
+import { Database, type SQLiteClient } from '../../utils/sqlite-client';
+import { getSQLiteFilePath } from '../../utils/helpers';
+import { BaseConnection } from './base';
+import type { ConnectionOptions } from './base';
+import type { ConnectionConfig } from '../../core/types';
+import chalk from 'chalk';
+
+export class SQLiteConnection extends BaseConnection {
+  private client: SQLiteClient | null = null;
+  private connectionConfig: ConnectionConfig;
+  private filePath: string;
+
+  constructor(connectionConfig: ConnectionConfig, options: ConnectionOptions = {}) {
+    super(connectionConfig.url, options);
+    this.connectionConfig = connectionConfig;
+    this.filePath = getSQLiteFilePath(connectionConfig.url);
+  }
+
+  public async connect(): Promise<void> {
+    try {
+      if (!existsSync(this.filePath)) {
+        throw new Error(`SQLITE_CANTOPEN: ${this.filePath}`);
+      }
+
+      this.client = new Database(this.filePath, {
+        readonly: true,
+        fileMustExist: true,
+        timeout: this.options.timeout,
+      });
+      this.connected = true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.connected && this.client) {
+      this.client.close();
+      this.client = null;
+      this.connected = false;
+    }
+  }
+
+  public async test(): Promise<boolean> {
+    try {
+      // Reading sqlite_master fails for files that are not SQLite databases
+      this.client?.prepare('SELECT count(*) FROM sqlite_master').get();
+      return !!this.client;
+    } catch {
+      return false;
+    }
+  }
+
+  public getClient(): SQLiteClient | null {
+    return this.client;
+  }
+
+  private formatError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : null;
+
+    if (message.includes('SQLITE_CANTOPEN') || errorCode === 'SQLITE_CANTOPEN') {
+      return new Error(
+        `Could not open SQLite database ${chalk.cyan(this.filePath)}.\n\n` +
+          chalk.yellow('Please check the following:') +
+          '\n' +
+          `  1. The file exists and the path is correct.\n` +
+          `  2. Absolute paths use three slashes, e.g. ${chalk.cyan('sqlite:///path/to/app.db')}.\n` +
+          `  3. You have permission to read the file.\n\n` +
+          `To remove and re-add the connection with the correct path:\n` +
+          `  ${chalk.cyan(`schiba remove ${this.connectionConfig.tag}`)}`
+      );
+    }
+
+    return error instanceof Error ? error : new Error(message);
+  }
+}
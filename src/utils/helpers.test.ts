@@ -0,0 +1,55 @@
+import { getDefaultSchemas, isSecuritySensitive } from './helpers';
+
+describe('getDefaultSchemas', () => {
+  it.each([
+    ['POSTGRES', 'postgresql://localhost:5432/app', ['public']],
+    ['MYSQL', 'mysql://root@localhost:3306/shop', ['shop']],
+    ['MYSQL', 'mariadb://root@localhost/my%20shop?ssl=true', ['my shop']],
+    ['MYSQL', 'mysql://root@localhost:3306', []],
+    ['SQLITE', 'sqlite:///tmp/app.db', ['main']],
+    ['MSSQL', 'mssql://sa@localhost/app', ['dbo']],
+    ['ORACLE', 'oracle://scott@localhost/XEPDB1', ['SCOTT']],
+    ['MONGODB', 'mongodb://localhost:27017', ['test']],
+  ])('defaults %s %s to %j', (dbType, url, schemas) => {
+    expect(getDefaultSchemas(dbType, url)).toEqual(schemas);
+  });
+});
+
+describe('isSecuritySensitive', () => {
+  it.each([
+    'password',
+    'passwordHash',
+    'api_key',
+    'apiKey',
+    'APIKey',
+    'accessToken',
+    'oauth_token',
+    'client-secret',
+    'credentials',
+    'email',
+    'e_mail',
+    'contactEmail',
+    'phoneNumber',
+  ])('treats %s as sensitive', (name) => {
+    expect(isSecuritySensitive(name)).toBe(true);
+  });
+
+  it.each([
+    'userId',
+    'username',
+    'keyboardLayout',
+    'monkey',
+    'roleName',
+    'authorName',
+    'accessLevel',
+    'tokenizer',
+    'mailbox',
+  ])('leaves %s alone', (name) => {
+    expect(isSecuritySensitive(name)).toBe(false);
+  });
+
+  it('tests extra patterns against the name as written', () => {
+    expect(isSecuritySensitive('bio', [/^bio$/i])).toBe(true);
+    expect(isSecuritySensitive('biography', [/^bio$/i])).toBe(false);
+  });
+});
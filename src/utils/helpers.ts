@@ -1,23 +1,37 @@
+import { homedir } from 'os';
 import { CONFIG } from '../config/default';
 
-export function isSecuritySensitive(schema: string): boolean {
-  const sensitivePatterns = [
-    /user/i,
-    /password/i,
-    /auth/i,
-    /token/i,
-    /secret/i,
-    /credential/i,
-    /key/i,
-    /permission/i,
-    /role/i,
-    /access/i,
-  ];
-
-  return sensitivePatterns.some((pattern) => pattern.test(schema));
+// Tested against the words of a field name, joined with underscores
+const SENSITIVE_NAME_PATTERNS = [
+  /(^|_)(password|passwd|secret|token|credential|auth)s?($|_)/,
+  /(^|_)(api|access|private|secret|session|encryption)_?keys?($|_)/,
+  /(^|_)e_?mails?($|_)/,
+  /(^|_)phones?($|_)/,
+];
+
+/**
+ * Whether a field name looks like it holds a secret or personal contact details. Built-in
+ * patterns match whole words, so `userId` or `keyboardLayout` are not sensitive. Extra patterns
+ * are tested against the name as written.
+ */
+export function isSecuritySensitive(name: string, extraPatterns: RegExp[] = []): boolean {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toLowerCase();
+
+  return (
+    extraPatterns.some((pattern) => pattern.test(name)) ||
+    SENSITIVE_NAME_PATTERNS.some((pattern) => pattern.test(words))
+  );
 }
 
 export function validateConnectionString(str: string): boolean {
+  if (detectDatabaseType(str) === 'SQLITE') {
+    return !!getSQLiteFilePath(str);
+  }
+
   try {
     const url = new URL(str);
     return !!(url.protocol && url.host);
@@ -41,6 +55,43 @@ export function calculateCompressionRatio(original: number, compressed: number):
   return `${ratio.toFixed(1)}%`;
 }
 
+export function getDefaultSchemas(dbType: string | null, connectionString?: string): string[] {
+  switch (dbType) {
+    case 'MSSQL':
+      return ['dbo'];
+    case 'ORACLE': {
+      // Oracle schemas are owners, and the connecting user owns the default one
+      try {
+        const username = decodeURIComponent(new URL(connectionString || '').username);
+        return username ? [username.toUpperCase()] : [];
+      } catch {
+        return [];
+      }
+    }
+    case 'MYSQL': {
+      // MySQL has no schemas within a database; the database in the path plays that role
+      try {
+        const database = decodeURIComponent(new URL(connectionString || '').pathname.slice(1));
+        return database ? [database] : [];
+      } catch {
+        return [];
+      }
+    }
+    case 'SQLITE':
+      return ['main'];
+    case 'MONGODB': {
+      // Without a database in the path the driver connects to `test`
+      try {
+        return [decodeURIComponent(new URL(connectionString || '').pathname.slice(1)) || 'test'];
+      } catch {
+        return ['test'];
+      }
+    }
+    default:
+      return ['public'];
+  }
+}
+
 // Add database type detection
 export function detectDatabaseType(connectionString: string): string | null {
   for (const [dbType, prefixes] of Object.entries(CONFIG.SUPPORTED_DATABASES)) {
@@ -51,6 +102,36 @@ export function detectDatabaseType(connectionString: string): string | null {
   return null;
 }
 
+/**
+ * Resolve the database file from a `sqlite:` connection string.
+ * Accepts `sqlite:///abs/path.db`, `sqlite:relative/path.db` and `sqlite:~/path.db`.
+ */
+export function getSQLiteFilePath(connectionString: string): string {
+  let filePath = connectionString.replace(/^sqlite:/i, '').split('?')[0];
+
+  if (filePath.startsWith('//')) {
+    filePath = filePath.slice(2);
+  }
+
+  filePath = decodeURIComponent(filePath);
+
+  // sqlite:///C:/data/app.db on Windows
+  if (/^\/[A-Za-z]:\//.test(filePath)) {
+    filePath = filePath.slice(1);
+  }
+
+  if (filePath === '~' || filePath.startsWith('~/')) {
+    filePath = homedir() + filePath.slice(1);
+  }
+
+  return filePath;
+}
+
+// Keep pipes and line breaks, e.g. in SQL fragments, from breaking a markdown table
+export function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
 export function formatDuration(seconds: number): string {
   if (seconds < 1) {
     return `${(seconds * 1000).toFixed(0)}ms`;
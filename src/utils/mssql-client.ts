@@ -0,0 +1,48 @@
+import mssql from 'mssql';
+import type { ConnectionPool as MssqlPool, config as MssqlConfig, Request } from 'mssql';
+import type { ConnectionConfig } from '../core/types';
+
+const { ConnectionPool } = mssql;
+
+// Export the constructor
+export { ConnectionPool };
+// Export the type with a different name
+export type MssqlClient = MssqlPool;
+
+/**
+ * Build driver options from a `mssql://` or `sqlserver://` connection string.
+ * SSL modes map onto tedious' `encrypt` and `trustServerCertificate` flags.
+ */
+export function buildMssqlConfig(
+  connectionConfig: ConnectionConfig,
+  timeout?: number
+): MssqlConfig {
+  const url = new URL(connectionConfig.url);
+  const database = url.pathname.slice(1);
+  const sslMode = connectionConfig.sslMode;
+
+  return {
+    server: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : 1433,
+    user: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+    database: database ? decodeURIComponent(database) : undefined,
+    connectionTimeout: timeout,
+    options: {
+      encrypt: sslMode !== 'disable',
+      trustServerCertificate: sslMode !== 'verify-ca' && sslMode !== 'verify-full',
+    },
+  };
+}
+
+/**
+ * Bind each value as its own parameter and return the placeholders for an `IN (...)` list.
+ */
+export function bindList(request: Request, prefix: string, values: string[]): string {
+  return values
+    .map((value, index) => {
+      request.input(`${prefix}${index}`, value);
+      return `@${prefix}${index}`;
+    })
+    .join(', ');
+}
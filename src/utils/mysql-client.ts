@@ -0,0 +1,42 @@
+import mysql from 'mysql2/promise';
+import type { Connection, ConnectionOptions } from 'mysql2/promise';
+import type { ConnectionConfig } from '../core/types';
+import { buildSSLConfig } from './ssl';
+
+const { createConnection } = mysql;
+
+// Export the factory
+export { createConnection };
+// Export the type with a different name
+export type MySQLClient = Connection;
+
+/**
+ * Build driver options from a `mysql://` or `mariadb://` connection string.
+ * The URL is parsed by hand because mysql2 only understands the `mysql://` scheme.
+ */
+export function buildMySQLConfig(
+  connectionConfig: ConnectionConfig,
+  timeout?: number
+): ConnectionOptions {
+  const url = new URL(connectionConfig.url);
+  const ssl = buildSSLConfig(connectionConfig.sslMode);
+
+  return {
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : 3306,
+    user: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+    database: getMySQLDatabase(connectionConfig.url),
+    connectTimeout: timeout,
+    ssl: ssl || undefined,
+  };
+}
+
+export function getMySQLDatabase(connectionString: string): string | undefined {
+  try {
+    const database = new URL(connectionString).pathname.slice(1);
+    return database ? decodeURIComponent(database) : undefined;
+  } catch {
+    return undefined;
+  }
+}
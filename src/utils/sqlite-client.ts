@@ -0,0 +1,6 @@
+import Database from 'better-sqlite3';
+
+// Export the constructor
+export { Database };
+// Export the type with a different name
+export type SQLiteClient = Database.Database;
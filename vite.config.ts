@@ -17,9 +17,15 @@ export default defineConfig({
         'ora',
         'pg',
         'mongodb',
+        'mysql2',
+        'mysql2/promise',
+        'better-sqlite3',
+        'mssql',
+        'oracledb',
         'path',
         'fs',
         'fs/promises',
+        'crypto',
         'url',
         'util',
         'stream',